@@ -2,7 +2,7 @@
  * Default configuration for ClawTaint
  */
 
-import type { ClawTaintConfig } from './schema.js';
+import { DEFAULT_RESTRICTED_TOOLS, type ClawTaintConfig } from './schema.js';
 
 export function getDefaultConfig(): ClawTaintConfig {
   return {
@@ -16,6 +16,18 @@ export function getDefaultConfig(): ClawTaintConfig {
       penaltyPerUntrustedUrl: 10,
       recoveryPerTrustedUrl: 0,
       minimumLevel: 0,
+      timeRecovery: {
+        pointsPerMinute: 0,
+        delayMinutes: 0,
+        ceiling: 100,
+      },
+      repeatVisits: {
+        factor: 1,
+        windowMinutes: 60,
+      },
+      rateRules: [],
+      urlAggregation: 'worst',
+      hysteresis: 0,
       thresholds: [
         { minTaint: 75, maxTaint: 100, tier: 'permissive' },
         { minTaint: 50, maxTaint: 74, tier: 'cautious' },
@@ -23,18 +35,76 @@ export function getDefaultConfig(): ClawTaintConfig {
         { minTaint: 0, maxTaint: 24, tier: 'lockdown' },
       ],
     },
+    sessions: {
+      idleTimeoutMinutes: 60,
+      maxSessions: 1000,
+    },
+    persistence: {
+      enabled: true,
+      backend: 'json',
+      path: './.clawtaint-state.json',
+      expiryMinutes: 1440,
+      maxEvents: 100,
+    },
+    dataFlow: {
+      enabled: true,
+      action: 'block',
+      escalateTo: 'restricted',
+      minTokenLength: 16,
+      shingleWords: 4,
+      maxFingerprintsPerSession: 5000,
+      ttlMinutes: 60,
+    },
+    injectionDetection: {
+      enabled: true,
+      penalty: 20,
+      heuristics: ['instruction', 'hidden-html', 'zero-width', 'role-marker'],
+      customPatterns: [],
+      maxScanLength: 500_000,
+    },
     trustedUrls: {
       patterns: [
-        '*.github.com',
-        '*.stackoverflow.com',
-        '*.npmjs.com',
-        '*.python.org',
-        '*.mozilla.org',
-        '*.microsoft.com',
-        '*.typescriptlang.org',
-        '*.nodejs.org',
-        '*.developer.mozilla.org',
+        '.github.com',
+        '.stackoverflow.com',
+        '.npmjs.com',
+        '.python.org',
+        '.mozilla.org',
+        '.microsoft.com',
+        '.typescriptlang.org',
+        '.nodejs.org',
       ],
+      reputation: {
+        neutral: { patterns: [], penalty: 0 },
+        suspicious: {
+          patterns: [
+            '.pastebin.com',
+            '.paste.ee',
+            '.hastebin.com',
+            '.transfer.sh',
+            '.ngrok.io',
+            '.ngrok-free.app',
+            '.webhook.site',
+            '.requestbin.net',
+          ],
+          penalty: 30,
+        },
+        malicious: { patterns: [], penalty: 60 },
+      },
+      httpDowngradePenalty: 5,
+      localNetwork: {
+        loopback: 'trusted',
+        linkLocal: 'untrusted',
+        private: 'neutral',
+      },
+      lookalikes: {
+        enabled: true,
+        penalty: 30,
+      },
+    },
+    blockedUrls: {
+      patterns: [],
+      listFiles: [],
+      tier: 'lockdown',
     },
     shellRestrictions: {
       toolNames: ['Bash', 'shell', 'terminal', 'run_command', 'execute'],
@@ -74,6 +144,7 @@ export function getDefaultConfig(): ClawTaintConfig {
         'wget | sh',
         'wget | bash',
       ],
+      opaqueExecution: 'dangerous',
       safeCommands: [
         'ls',
         'dir',
@@ -84,7 +155,7 @@ export function getDefaultConfig(): ClawTaintConfig {
         'tail',
         'echo',
         'whoami',
-        'date',
+        { command: 'date', forbiddenFlags: ['-s', '--set'] },
         'uname',
         'hostname',
         'env',
@@ -94,11 +165,11 @@ export function getDefaultConfig(): ClawTaintConfig {
         'type',
         'file',
         'wc',
-        'sort',
+        { command: 'sort', forbiddenFlags: ['-o', '--output'] },
         'uniq',
         'grep',
-        'find',
-        'tree',
+        { command: 'find', forbiddenFlags: ['-delete', '-exec', '-execdir', '-ok', '-okdir', '-fls', '-fprint', '-fprint0', '-fprintf'] },
+        { command: 'tree', forbiddenFlags: ['-o'] },
         'df',
         'du',
         'free',
@@ -109,10 +180,75 @@ export function getDefaultConfig(): ClawTaintConfig {
         'npm --version',
         'python --version',
         'git status',
-        'git log',
-        'git diff',
-        'git branch',
+        { command: 'git log', forbiddenFlags: ['--output', '--ext-diff'] },
+        { command: 'git diff', forbiddenFlags: ['--output', '--ext-diff'] },
+        {
+          command: 'git branch',
+          forbiddenFlags: ['-d', '-D', '--delete', '-m', '-M', '--move', '-c', '-C', '--copy', '-f', '--force', '-u', '--set-upstream-to', '--unset-upstream', '--edit-description'],
+        },
       ],
+      workspaceRoot: '.',
+      sensitivePaths: [
+        '~/.ssh/**',
+        '~/.aws/**',
+        '~/.gnupg/**',
+        '~/.config/gcloud/**',
+        '~/.azure/**',
+        '~/.kube/config',
+        '~/.docker/config.json',
+        '~/.netrc',
+        '~/.npmrc',
+        '~/.pypirc',
+        '~/.git-credentials',
+        '~/.config/gh/hosts.yml',
+        '**/.env',
+        '**/.env.local',
+        '**/.env.production',
+        '**/id_rsa*',
+        '**/id_ed25519*',
+        '**/*.pem',
+        '**/*.key',
+        '/etc/shadow',
+        '/proc/*/environ',
+      ],
+      sensitiveCommands: [
+        'env',
+        'printenv',
+        'export -p',
+        'declare -p',
+        'declare -x',
+        'compgen -v',
+      ],
+      sensitiveVariables: [
+        '*SECRET*',
+        '*_TOKEN',
+        '*_KEY',
+        '*PASSWORD*',
+        '*_PASSWD',
+      ],
+      tiers: [
+        { name: 'permissive', defaultAction: 'allow', allow: [], deny: [], blockOpaque: false, blockSensitive: false, egress: 'allow', writes: 'allow' },
+        {
+          name: 'cautious',
+          defaultAction: 'allow',
+          allow: [],
+          deny: ['$dangerousCommands'],
+          blockOpaque: true,
+          blockSensitive: true,
+          egress: 'untrusted-uploads',
+          writes: 'workspace',
+        },
+        { name: 'restricted', defaultAction: 'deny', allow: ['$safeCommands'], deny: [], blockOpaque: false, blockSensitive: true, egress: 'untrusted', writes: 'none' },
+        { name: 'lockdown', defaultAction: 'deny', allow: [], deny: [], blockOpaque: false, blockSensitive: true, egress: 'all', writes: 'none' },
+      ],
+    },
+    policy: {
+      rules: [],
+      files: [],
     },
+    tools: {},
+    toolRestrictions: Object.fromEntries(
+      DEFAULT_RESTRICTED_TOOLS.map((tool) => [tool, { blockIn: ['restricted', 'lockdown'], filters: [] }])
+    ),
   };
 }
@@ -1,12 +1,32 @@
 export { loadConfig } from './loader.js';
 export { getDefaultConfig } from './defaults.js';
-export { ClawTaintConfigSchema } from './schema.js';
+export { ClawTaintConfigSchema, DEFAULT_RESTRICTED_TOOLS } from './schema.js';
 export type {
   ClawTaintConfig,
   TaintConfig,
+  TimeRecovery,
+  RepeatVisits,
+  RateRule,
+  SessionConfig,
+  PersistenceConfig,
+  DataFlowConfig,
+  InjectionDetectionConfig,
   TrustedUrls,
+  UrlClass,
+  Reputation,
+  BlockedUrls,
   ShellRestrictions,
   RestrictionTier,
   TaintThreshold,
+  Tier,
+  SafeCommand,
+  SafeCommandSpec,
+  ToolProfile,
+  ArgumentFilter,
+  ToolRestriction,
+  PolicyMatch,
+  CommandRewrite,
+  PolicyRule,
+  PolicyConfig,
   GlobalConfig,
 } from './schema.js';
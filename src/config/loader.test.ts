@@ -0,0 +1,64 @@
+/**
+ * Tests for the Configuration Loader
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadConfig } from './loader.js';
+import { getDefaultConfig } from './defaults.js';
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'clawtaint-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function load(yaml: string) {
+    const path = join(dir, 'clawtaint.yaml');
+    writeFileSync(path, yaml);
+    return loadConfig(path);
+  }
+
+  it('should fall back to the defaults without a config file', () => {
+    expect(loadConfig(join(dir, 'missing.yaml'))).toEqual(getDefaultConfig());
+  });
+
+  it('should default the escalation tiers to the built-in tiers', () => {
+    const config = load('version: "1.0"\n');
+    expect(config).toEqual(getDefaultConfig());
+    expect(config.blockedUrls.tier).toBe('lockdown');
+    expect(config.dataFlow.escalateTo).toBe('restricted');
+  });
+
+  it('should load a config with custom tier names', () => {
+    const config = load([
+      'taint:',
+      '  thresholds:',
+      '    - { minTaint: 50, maxTaint: 100, tier: open }',
+      '    - { minTaint: 0, maxTaint: 49, tier: closed }',
+      'shellRestrictions:',
+      '  tiers:',
+      '    - { name: open }',
+      '    - { name: closed, defaultAction: deny }',
+      '',
+    ].join('\n'));
+
+    expect(config.taint.thresholds.map((threshold) => threshold.tier)).toEqual(['open', 'closed']);
+    expect(config.blockedUrls.tier).toBe('closed');
+    expect(config.dataFlow.escalateTo).toBe('closed');
+    expect(config.toolRestrictions.Write?.blockIn).toEqual(['closed']);
+  });
+
+  it('should reject an escalation to an unknown tier', () => {
+    const config = load('blockedUrls:\n  tier: nowhere\n');
+    expect(config.blockedUrls.tier).toBe('lockdown');
+    expect(config).toEqual(getDefaultConfig());
+  });
+});
@@ -11,14 +11,76 @@ import { z } from 'zod';
 // =============================================================================
 
 /**
- * Shell restriction tier applied at different taint levels
+ * Name of a shell restriction tier applied at different taint levels.
+ * The defaults are permissive, cautious, restricted and lockdown;
+ * shellRestrictions.tiers defines what each one allows.
  */
-export const RestrictionTierSchema = z.enum([
-  'permissive',  // All shell commands allowed
-  'cautious',    // Dangerous commands blocked
-  'restricted',  // Only safe commands allowed
-  'lockdown',    // All shell commands blocked
-]);
+export const RestrictionTierSchema = z.string().min(1);
+
+/**
+ * A safe command with constraints on its arguments
+ */
+export const SafeCommandSpecSchema = z.object({
+  /** Command and required leading words, e.g. "git log" */
+  command: z.string().min(1),
+
+  /** Allowed values of the word after the command, e.g. git: [status, log] */
+  subcommands: z.array(z.string()).optional(),
+
+  /**
+   * Flags that make the command unsafe ("-o" also matches in clusters like
+   * "-ro"; "--output" also matches "--output=x" and abbreviations)
+   */
+  forbiddenFlags: z.array(z.string()).default([]),
+});
+
+/**
+ * A safe command: a string is a spec without constraints beyond its words
+ * ("ls" allows any arguments, "git status" only git status)
+ */
+export const SafeCommandSchema = z.union([z.string(), SafeCommandSpecSchema]);
+
+/**
+ * A restriction tier and the shell commands it allows
+ */
+export const TierSchema = z.object({
+  /** Tier name, referenced by thresholds and escalations */
+  name: RestrictionTierSchema,
+
+  /** What happens to a command no list matches */
+  defaultAction: z.enum(['allow', 'deny']).default('allow'),
+
+  /**
+   * Commands allowed when defaultAction is 'deny' (safe command specs).
+   * "$safeCommands" expands to shellRestrictions.safeCommands
+   */
+  allow: z.array(SafeCommandSchema).default([]),
+
+  /**
+   * Commands blocked in this tier (pattern matched).
+   * "$dangerousCommands" expands to shellRestrictions.dangerousCommands
+   */
+  deny: z.array(z.string()).default([]),
+
+  /** Block opaque execution in this tier (with opaqueExecution: dangerous) */
+  blockOpaque: z.boolean().default(false),
+
+  /**
+   * Network egress blocked in this tier: 'untrusted-uploads' blocks sending
+   * local data to destinations that are not trusted URLs, 'untrusted' blocks
+   * any connection to them, 'all' blocks every egress-capable command
+   */
+  egress: z.enum(['allow', 'untrusted-uploads', 'untrusted', 'all']).default('allow'),
+
+  /** Block access to sensitive paths and environment dumps, even by safe commands */
+  blockSensitive: z.boolean().default(false),
+
+  /**
+   * File writes allowed in this tier (redirections, tee, cp/mv destinations,
+   * sed -i, …): 'workspace' only allows them inside shellRestrictions.workspaceRoot
+   */
+  writes: z.enum(['allow', 'workspace', 'none']).default('allow'),
+});
 
 /**
  * A taint threshold that maps a taint range to a restriction tier
@@ -48,7 +110,7 @@ export const ShellRestrictionsSchema = z.object({
     '> /dev/sda',
   ]),
 
-  /** Commands considered dangerous (blocked at 'cautious' tier and below) */
+  /** Commands considered dangerous (blocked at 'cautious' tier via "$dangerousCommands") */
   dangerousCommands: z.array(z.string()).default([
     'rm -rf',
     'rm -r',
@@ -79,8 +141,14 @@ export const ShellRestrictionsSchema = z.object({
     'wget | bash',
   ]),
 
-  /** Commands considered safe (allowed at 'restricted' tier) */
-  safeCommands: z.array(z.string()).default([
+  /**
+   * How to treat opaque execution (eval, base64 piped to a shell, `sh -c "$VAR"`):
+   * 'dangerous' blocks it in tiers with blockOpaque, 'block' blocks it always
+   */
+  opaqueExecution: z.enum(['allow', 'dangerous', 'block']).default('dangerous'),
+
+  /** Commands considered safe (allowed at 'restricted' tier via "$safeCommands") */
+  safeCommands: z.array(SafeCommandSchema).default([
     'ls',
     'dir',
     'pwd',
@@ -90,7 +158,7 @@ export const ShellRestrictionsSchema = z.object({
     'tail',
     'echo',
     'whoami',
-    'date',
+    { command: 'date', forbiddenFlags: ['-s', '--set'] },
     'uname',
     'hostname',
     'env',
@@ -100,11 +168,11 @@ export const ShellRestrictionsSchema = z.object({
     'type',
     'file',
     'wc',
-    'sort',
+    { command: 'sort', forbiddenFlags: ['-o', '--output'] },
     'uniq',
     'grep',
-    'find',
-    'tree',
+    { command: 'find', forbiddenFlags: ['-delete', '-exec', '-execdir', '-ok', '-okdir', '-fls', '-fprint', '-fprint0', '-fprintf'] },
+    { command: 'tree', forbiddenFlags: ['-o'] },
     'df',
     'du',
     'free',
@@ -115,10 +183,129 @@ export const ShellRestrictionsSchema = z.object({
     'npm --version',
     'python --version',
     'git status',
-    'git log',
-    'git diff',
-    'git branch',
+    { command: 'git log', forbiddenFlags: ['--output', '--ext-diff'] },
+    { command: 'git diff', forbiddenFlags: ['--output', '--ext-diff'] },
+    {
+      command: 'git branch',
+      forbiddenFlags: ['-d', '-D', '--delete', '-m', '-M', '--move', '-c', '-C', '--copy', '-f', '--force', '-u', '--set-upstream-to', '--unset-upstream', '--edit-description'],
+    },
   ]),
+
+  /**
+   * Workspace directory that relative paths in commands resolve against, and
+   * that tiers with writes: workspace confine writes to
+   */
+  workspaceRoot: z.string().default('.'),
+
+  /**
+   * Path globs blocked in tiers with blockSensitive. "~" is the home
+   * directory, relative globs resolve against workspaceRoot, a leading "**"
+   * matches in any directory
+   */
+  sensitivePaths: z.array(z.string()).default([
+    '~/.ssh/**',
+    '~/.aws/**',
+    '~/.gnupg/**',
+    '~/.config/gcloud/**',
+    '~/.azure/**',
+    '~/.kube/config',
+    '~/.docker/config.json',
+    '~/.netrc',
+    '~/.npmrc',
+    '~/.pypirc',
+    '~/.git-credentials',
+    '~/.config/gh/hosts.yml',
+    '**/.env',
+    '**/.env.local',
+    '**/.env.production',
+    '**/id_rsa*',
+    '**/id_ed25519*',
+    '**/*.pem',
+    '**/*.key',
+    '/etc/shadow',
+    '/proc/*/environ',
+  ]),
+
+  /** Commands that dump secrets, blocked in tiers with blockSensitive (matched by leading words) */
+  sensitiveCommands: z.array(z.string()).default([
+    'env',
+    'printenv',
+    'export -p',
+    'declare -p',
+    'declare -x',
+    'compgen -v',
+  ]),
+
+  /** Variables whose expansion reads a secret, blocked in tiers with blockSensitive (case-insensitive wildcards) */
+  sensitiveVariables: z.array(z.string()).default([
+    '*SECRET*',
+    '*_TOKEN',
+    '*_KEY',
+    '*PASSWORD*',
+    '*_PASSWD',
+  ]),
+
+  /**
+   * Restriction tiers. Thresholds map taint levels onto them; the defaults
+   * are the four built-in tiers.
+   */
+  tiers: z.array(TierSchema).min(1).default([
+    { name: 'permissive', defaultAction: 'allow', allow: [], deny: [], blockOpaque: false, blockSensitive: false, egress: 'allow', writes: 'allow' },
+    {
+      name: 'cautious',
+      defaultAction: 'allow',
+      allow: [],
+      deny: ['$dangerousCommands'],
+      blockOpaque: true,
+      blockSensitive: true,
+      egress: 'untrusted-uploads',
+      writes: 'workspace',
+    },
+    { name: 'restricted', defaultAction: 'deny', allow: ['$safeCommands'], deny: [], blockOpaque: false, blockSensitive: true, egress: 'untrusted', writes: 'none' },
+    { name: 'lockdown', defaultAction: 'deny', allow: [], deny: [], blockOpaque: false, blockSensitive: true, egress: 'all', writes: 'none' },
+  ]),
+});
+
+/**
+ * Time-based taint recovery
+ */
+export const TimeRecoverySchema = z.object({
+  /** Points recovered per minute without untrusted access (0 = disabled) */
+  pointsPerMinute: z.number().min(0).max(100).default(0),
+
+  /** Minutes after the last untrusted access before recovery starts */
+  delayMinutes: z.number().min(0).default(0),
+
+  /** Highest level that time-based recovery can reach */
+  ceiling: z.number().min(0).max(100).default(100),
+});
+
+/**
+ * Discount for repeat visits to the same domain
+ */
+export const RepeatVisitsSchema = z.object({
+  /** Fraction of the penalty a repeat visit costs (1 = full price, 0 = free) */
+  factor: z.number().min(0).max(1).default(1),
+
+  /** Minutes after a full-price visit during which visits count as repeats */
+  windowMinutes: z.number().min(0).default(60),
+});
+
+/**
+ * Sliding-window rate rule: too much untrusted access too fast jumps to a tier
+ */
+export const RateRuleSchema = z.object({
+  /** What is counted: distinct untrusted domains, or every penalty */
+  count: z.enum(['domains', 'penalties']).default('domains'),
+
+  /** The rule fires when the count in the window exceeds this */
+  limit: z.number().int().min(1),
+
+  /** Length of the sliding window */
+  windowSeconds: z.number().min(1),
+
+  /** Tier the session jumps to */
+  tier: RestrictionTierSchema,
 });
 
 /**
@@ -137,6 +324,24 @@ export const TaintConfigSchema = z.object({
   /** Minimum taint level (floor) */
   minimumLevel: z.number().min(0).max(100).default(0),
 
+  /** Recovery over time while no untrusted URLs are accessed */
+  timeRecovery: TimeRecoverySchema.prefault({}),
+
+  /** Repeat visits to a domain within a window cost a fraction of the penalty */
+  repeatVisits: RepeatVisitsSchema.prefault({}),
+
+  /** Rate rules for bursts of untrusted access, e.g. more than 5 domains in 60s → restricted */
+  rateRules: z.array(RateRuleSchema).default([]),
+
+  /** How a tool call with several URLs is scored: only the worst one, or each one */
+  urlAggregation: z.enum(['worst', 'each']).default('worst'),
+
+  /**
+   * Points the level must climb past a tier's lower bound before relaxing
+   * into that tier (prevents flapping at threshold edges; 0 = none)
+   */
+  hysteresis: z.number().min(0).max(100).default(0),
+
   /** Taint thresholds defining restriction tiers */
   thresholds: z.array(TaintThresholdSchema).default([
     { minTaint: 75, maxTaint: 100, tier: 'permissive' },
@@ -146,22 +351,348 @@ export const TaintConfigSchema = z.object({
   ]),
 });
 
+/**
+ * How a URL is treated: recover, ignore or penalize
+ */
+export const UrlClassSchema = z.enum(['trusted', 'neutral', 'untrusted']);
+
+/**
+ * Reputation classes between trusted and unknown. Each class has its own
+ * patterns (same syntax as trustedUrls.patterns) and penalty per access;
+ * unknown URLs cost taint.penaltyPerUntrustedUrl.
+ */
+export const ReputationSchema = z.object({
+  /** Well-known sites: cost little or nothing, never recover */
+  neutral: z.object({
+    patterns: z.array(z.string()).default([]),
+    penalty: z.number().min(0).max(100).default(0),
+  }).prefault({}),
+
+  /** Paste sites, tunnels and request catchers */
+  suspicious: z.object({
+    patterns: z.array(z.string()).default([
+      '.pastebin.com',
+      '.paste.ee',
+      '.hastebin.com',
+      '.transfer.sh',
+      '.ngrok.io',
+      '.ngrok-free.app',
+      '.webhook.site',
+      '.requestbin.net',
+    ]),
+    penalty: z.number().min(0).max(100).default(30),
+  }).prefault({}),
+
+  /** Known-bad hosts that should cost heavily without being blocked (see blockedUrls) */
+  malicious: z.object({
+    patterns: z.array(z.string()).default([]),
+    penalty: z.number().min(0).max(100).default(60),
+  }).prefault({}),
+});
+
 /**
  * Trusted URLs configuration
  */
 export const TrustedUrlsSchema = z.object({
-  /** List of trusted URL patterns (supports glob: *.github.com, docs.*.org) */
+  /**
+   * List of trusted URL patterns. Host globs (*.github.com, docs.*.org,
+   * .github.com for the apex and all subdomains), CIDR ranges (10.0.0.0/8)
+   * or URL rules with scheme, port and path (https://github.com/our-org/**)
+   */
   patterns: z.array(z.string()).default([
-    '*.github.com',
-    '*.stackoverflow.com',
-    '*.npmjs.com',
-    '*.python.org',
-    '*.mozilla.org',
-    '*.microsoft.com',
-    '*.typescriptlang.org',
-    '*.nodejs.org',
-    '*.developer.mozilla.org',
+    '.github.com',
+    '.stackoverflow.com',
+    '.npmjs.com',
+    '.python.org',
+    '.mozilla.org',
+    '.microsoft.com',
+    '.typescriptlang.org',
+    '.nodejs.org',
   ]),
+
+  /** Neutral, suspicious and malicious classes, each with patterns and a penalty */
+  reputation: ReputationSchema.prefault({}),
+
+  /** Penalty when a trusted host is reached over plain HTTP */
+  httpDowngradePenalty: z.number().min(0).max(100).default(5),
+
+  /** How loopback, link-local and private-network hosts that match no pattern are treated */
+  localNetwork: z.object({
+    /** localhost, 127.0.0.0/8, ::1 */
+    loopback: UrlClassSchema.default('trusted'),
+    /** 169.254/16, fe80::/10 and cloud metadata services */
+    linkLocal: UrlClassSchema.default('untrusted'),
+    /** 10/8, 172.16/12, 192.168/16, 100.64/10, fc00::/7 */
+    private: UrlClassSchema.default('neutral'),
+  }).prefault({}),
+
+  /** Homograph / punycode lookalikes of trusted domains */
+  lookalikes: z.object({
+    /** Detect mixed-script, confusable and embedded lookalikes */
+    enabled: z.boolean().default(true),
+    /** Penalty for accessing a lookalike (instead of penaltyPerUntrustedUrl) */
+    penalty: z.number().min(0).max(100).default(30),
+  }).prefault({}),
+});
+
+/**
+ * Known-malicious URLs
+ */
+export const BlockedUrlsSchema = z.object({
+  /** Blocked domain patterns (glob syntax, same as trustedUrls) */
+  patterns: z.array(z.string()).default([]),
+
+  /** Local list files in hosts format or one domain per line */
+  listFiles: z.array(z.string()).default([]),
+
+  /** Tier a session drops to when it accesses a blocked URL (default: lockdown, else the strictest tier) */
+  tier: RestrictionTierSchema.optional(),
+});
+
+/**
+ * Per-session tracker lifecycle
+ */
+export const SessionConfigSchema = z.object({
+  /** Minutes a session may sit idle before its tracker is evicted (0 = never) */
+  idleTimeoutMinutes: z.number().min(0).default(60),
+
+  /** Maximum number of tracked sessions (least recently used are evicted first) */
+  maxSessions: z.number().int().min(1).default(1000),
+});
+
+/**
+ * Persistence of taint state across plugin restarts
+ */
+export const PersistenceConfigSchema = z.object({
+  /** Persist per-session taint state */
+  enabled: z.boolean().default(true),
+
+  /** Storage backend ('json' = local file, 'memory' = not persisted across processes) */
+  backend: z.enum(['json', 'memory']).default('json'),
+
+  /** Path of the state file (json backend) */
+  path: z.string().default('./.clawtaint-state.json'),
+
+  /** Minutes after its last update that a session's saved state is discarded (0 = never) */
+  expiryMinutes: z.number().min(0).default(1440),
+
+  /** Maximum number of taint events saved per session */
+  maxEvents: z.number().int().min(0).default(100),
+});
+
+/**
+ * Data-flow taint: fingerprint content fetched from untrusted URLs and
+ * catch shell commands built from it
+ */
+export const DataFlowConfigSchema = z.object({
+  /** Fingerprint untrusted content and check shell commands against it */
+  enabled: z.boolean().default(true),
+
+  /** What to do with a shell command containing tainted content */
+  action: z.enum(['block', 'escalate']).default('block'),
+
+  /** Tier the session is escalated to (action 'escalate'; default: restricted, else the strictest tier) */
+  escalateTo: RestrictionTierSchema.optional(),
+
+  /** Minimum length of a random-looking token to fingerprint (URLs are always fingerprinted) */
+  minTokenLength: z.number().int().min(4).default(16),
+
+  /** Number of consecutive words fingerprinted together (0 = off) */
+  shingleWords: z.number().int().min(0).default(4),
+
+  /** Maximum number of fingerprints kept per session (oldest are dropped first) */
+  maxFingerprintsPerSession: z.number().int().min(1).default(5000),
+
+  /** Minutes a fingerprint stays tainted (0 = forever) */
+  ttlMinutes: z.number().min(0).default(60),
+});
+
+/**
+ * Prompt injection detection on tool output
+ */
+export const InjectionDetectionSchema = z.object({
+  /** Scan tool results for prompt injection */
+  enabled: z.boolean().default(true),
+
+  /** Taint penalty applied when a tool result looks like an injection attempt */
+  penalty: z.number().min(0).max(100).default(20),
+
+  /** Heuristics to run */
+  heuristics: z.array(z.enum(['instruction', 'hidden-html', 'zero-width', 'role-marker']))
+    .default(['instruction', 'hidden-html', 'zero-width', 'role-marker']),
+
+  /** Additional case-insensitive regular expressions treated as injection */
+  customPatterns: z.array(z.string()).default([]),
+
+  /** Maximum number of characters of a tool result that are scanned */
+  maxScanLength: z.number().int().min(1).default(500_000),
+});
+
+/**
+ * Per-tool URL/command locations and penalty weight
+ */
+export const ToolProfileSchema = z.object({
+  /** JSON paths of the tool's URL fields ("navigate.url", "requests[*].url") */
+  urlPaths: z.array(z.string()).optional(),
+
+  /** JSON paths of the tool's command fields; the first non-empty one is used */
+  commandPaths: z.array(z.string()).optional(),
+
+  /** Multiplier for URL penalties incurred through this tool */
+  penaltyMultiplier: z.number().min(0).default(1),
+});
+
+/**
+ * A filter on a tool argument, applied in the given tiers
+ */
+export const ArgumentFilterSchema = z.object({
+  /** JSON path of the argument ("path", "files[*].path"); a string array counts item by item */
+  path: z.string().min(1),
+
+  /**
+   * How patterns match: 'wildcard' compares the value case-insensitively
+   * ("*" and "?"); 'path' resolves value and glob like sensitivePaths
+   */
+  match: z.enum(['wildcard', 'path']).default('wildcard'),
+
+  /** Patterns the value must match (any); omitted = every value */
+  allow: z.array(z.string()).optional(),
+
+  /** Patterns the value must not match */
+  deny: z.array(z.string()).default([]),
+
+  /** Tiers the filter applies in (omitted = every tier) */
+  tiers: z.array(RestrictionTierSchema).optional(),
+});
+
+/**
+ * Restrictions for a tool (or tool name glob), per tier
+ */
+export const ToolRestrictionSchema = z.object({
+  /** Tiers the tool is blocked in */
+  blockIn: z.array(RestrictionTierSchema).default([]),
+
+  /** Tiers the tool is allowed in (omitted = every tier not in blockIn) */
+  allowIn: z.array(RestrictionTierSchema).optional(),
+
+  /** Argument filters; the call is blocked if any value fails one */
+  filters: z.array(ArgumentFilterSchema).default([]),
+});
+
+/**
+ * Tools restricted by default: file write/edit and code execution tools.
+ * Names are exact (case-insensitive), so reddit_search or TodoWrite stay allowed
+ */
+export const DEFAULT_RESTRICTED_TOOLS = [
+  'Write',
+  'Edit',
+  'MultiEdit',
+  'NotebookEdit',
+  'write_file',
+  'file_write',
+  'edit_file',
+  'file_edit',
+  'create_file',
+  'apply_patch',
+  'str_replace_editor',
+  'str_replace_based_edit_tool',
+  'execute_code',
+  'code_execution',
+  'code_interpreter',
+  'run_code',
+  'python_exec',
+  'run_python',
+  'execute_python',
+] as const;
+
+/**
+ * Conditions a policy rule matches on; every condition given must hold
+ */
+export const PolicyMatchSchema = z.object({
+  /** Tool name globs (case-insensitive) */
+  tools: z.array(z.string()).optional(),
+
+  /** Restriction tiers the session is in */
+  tiers: z.array(RestrictionTierSchema).optional(),
+
+  /** Lowest taint level (inclusive) */
+  minTaint: z.number().min(0).max(100).optional(),
+
+  /** Highest taint level (inclusive) */
+  maxTaint: z.number().min(0).max(100).optional(),
+
+  /** Session ID globs */
+  sessions: z.array(z.string()).optional(),
+
+  /** User ID globs */
+  users: z.array(z.string()).optional(),
+
+  /** Regular expression tested against the shell command */
+  command: z.string().optional(),
+
+  /** Leading words of any command in the shell script (globs, e.g. ["git", "push"]) */
+  argv: z.array(z.string()).min(1).optional(),
+
+  /** Classifications of the URLs the call accesses (any one matches) */
+  urlClasses: z.array(z.enum([
+    'trusted', 'neutral', 'http-downgrade', 'untrusted', 'suspicious', 'lookalike', 'malicious',
+  ])).optional(),
+});
+
+/**
+ * How a rewrite rule changes a shell command
+ */
+export const CommandRewriteSchema = z.object({
+  /**
+   * Flags removed from the command ("--force"; a short flag also from clusters:
+   * -f from -rf). Like addFlags, only applied to the simple commands the rule's
+   * match.argv matches, or to the first command without it
+   */
+  removeFlags: z.array(z.string()).default([]),
+
+  /** Flags inserted after the command name, or after the words of the rule's match.argv */
+  addFlags: z.array(z.string()).default([]),
+
+  /** Sandbox command the whole script runs under via `sh -c` (e.g. "firejail --net=none") */
+  prefix: z.string().min(1).optional(),
+});
+
+/**
+ * An ordered policy rule for tool calls
+ */
+export const PolicyRuleSchema = z.object({
+  /** Rule name, reported in the hook result's metadata.rule */
+  name: z.string().min(1),
+
+  /** Conditions (an empty match matches every call) */
+  match: PolicyMatchSchema.prefault({}),
+
+  /**
+   * allow: skip the tier restrictions; block: block the call;
+   * warn: log and keep evaluating; rewrite: merge params into the tool input
+   * and apply the command rewrite
+   */
+  action: z.enum(['allow', 'block', 'warn', 'rewrite']),
+
+  /** Reason reported when the rule fires */
+  reason: z.string().optional(),
+
+  /** Tool input fields set by a rewrite rule */
+  params: z.record(z.string(), z.unknown()).optional(),
+
+  /** Shell command changes made by a rewrite rule (after params are merged) */
+  rewrite: CommandRewriteSchema.optional(),
+});
+
+/**
+ * Declarative policy: ordered rules evaluated before the built-in checks
+ */
+export const PolicyConfigSchema = z.object({
+  /** Rules, in evaluation order */
+  rules: z.array(PolicyRuleSchema).default([]),
+
+  /** YAML files with more rules (a list, or an object with a rules list), evaluated after rules */
+  files: z.array(z.string()).default([]),
 });
 
 /**
@@ -177,10 +708,84 @@ export const GlobalConfigSchema = z.object({
  */
 export const ClawTaintConfigSchema = z.object({
   version: z.string().default('1.0'),
-  global: GlobalConfigSchema.default({}),
-  taint: TaintConfigSchema.default({}),
-  trustedUrls: TrustedUrlsSchema.default({}),
-  shellRestrictions: ShellRestrictionsSchema.default({}),
+  global: GlobalConfigSchema.prefault({}),
+  taint: TaintConfigSchema.prefault({}),
+  sessions: SessionConfigSchema.prefault({}),
+  persistence: PersistenceConfigSchema.prefault({}),
+  dataFlow: DataFlowConfigSchema.prefault({}),
+  injectionDetection: InjectionDetectionSchema.prefault({}),
+  trustedUrls: TrustedUrlsSchema.prefault({}),
+  blockedUrls: BlockedUrlsSchema.prefault({}),
+  shellRestrictions: ShellRestrictionsSchema.prefault({}),
+  policy: PolicyConfigSchema.prefault({}),
+  /** Tool profiles keyed by tool name */
+  tools: z.record(z.string(), ToolProfileSchema).default({}),
+  /**
+   * Tool restrictions keyed by tool name or glob ("*_write", "mcp__*").
+   * Unset, DEFAULT_RESTRICTED_TOOLS are blocked from the escalation tier on
+   */
+  toolRestrictions: z.record(z.string(), ToolRestrictionSchema).optional(),
+}).superRefine((config, ctx) => {
+  // Every tier referenced must be defined; escalation targets also need a
+  // threshold, which places them in the strictness order
+  const defined = new Set(config.shellRestrictions.tiers.map((tier) => tier.name));
+  const mapped = new Set(config.taint.thresholds.map((threshold) => threshold.tier));
+
+  const references: Array<{ tier: string; path: PropertyKey[]; escalation: boolean }> = [
+    ...config.taint.thresholds.map((t, i) => ({ tier: t.tier, path: ['taint', 'thresholds', i, 'tier'], escalation: false })),
+    ...config.taint.rateRules.map((r, i) => ({ tier: r.tier, path: ['taint', 'rateRules', i, 'tier'], escalation: true })),
+    ...(config.blockedUrls.tier === undefined ? [] : [
+      { tier: config.blockedUrls.tier, path: ['blockedUrls', 'tier'], escalation: true },
+    ]),
+    ...(config.dataFlow.escalateTo === undefined ? [] : [
+      { tier: config.dataFlow.escalateTo, path: ['dataFlow', 'escalateTo'], escalation: true },
+    ]),
+    ...config.policy.rules.flatMap((rule, i) => (rule.match.tiers ?? []).map((tier, j) => (
+      { tier, path: ['policy', 'rules', i, 'match', 'tiers', j], escalation: false }
+    ))),
+    ...Object.entries(config.toolRestrictions ?? {}).flatMap(([tool, restriction]) => [
+      ...restriction.blockIn.map((tier, j) => ({ tier, path: ['toolRestrictions', tool, 'blockIn', j], escalation: false })),
+      ...(restriction.allowIn ?? []).map((tier, j) => ({ tier, path: ['toolRestrictions', tool, 'allowIn', j], escalation: false })),
+      ...restriction.filters.flatMap((filter, i) => (filter.tiers ?? []).map((tier, j) => (
+        { tier, path: ['toolRestrictions', tool, 'filters', i, 'tiers', j], escalation: false }
+      ))),
+    ]),
+  ];
+
+  for (const { tier, path, escalation } of references) {
+    if (!defined.has(tier)) {
+      ctx.addIssue({ code: 'custom', path, message: `Unknown tier "${tier}" (not in shellRestrictions.tiers)` });
+    } else if (escalation && !mapped.has(tier)) {
+      ctx.addIssue({ code: 'custom', path, message: `Tier "${tier}" has no threshold in taint.thresholds` });
+    }
+  }
+}).transform((config) => {
+  // Unset escalation targets use the built-in tier when the config has it,
+  // else the strictest configured tier (custom tier names)
+  const strictest = config.taint.thresholds.reduce<TaintThreshold | undefined>(
+    (best, threshold) => (!best || threshold.minTaint < best.minTaint ? threshold : best),
+    undefined
+  )?.tier;
+  const orDefault = (tier: string | undefined, builtIn: string): string => (
+    tier ?? (config.taint.thresholds.some((threshold) => threshold.tier === builtIn) ? builtIn : strictest ?? builtIn)
+  );
+
+  // Default tool restrictions apply in the restricted tier and every stricter one
+  const restricted = orDefault(undefined, 'restricted');
+  const restrictedMin = config.taint.thresholds.find((threshold) => threshold.tier === restricted)?.minTaint ?? 0;
+  const blockIn = config.taint.thresholds
+    .filter((threshold) => threshold.minTaint <= restrictedMin)
+    .map((threshold) => threshold.tier);
+  const toolRestrictions: Record<string, ToolRestriction> = config.toolRestrictions ?? Object.fromEntries(
+    DEFAULT_RESTRICTED_TOOLS.map((tool) => [tool, { blockIn, filters: [] }])
+  );
+
+  return {
+    ...config,
+    dataFlow: { ...config.dataFlow, escalateTo: orDefault(config.dataFlow.escalateTo, 'restricted') },
+    blockedUrls: { ...config.blockedUrls, tier: orDefault(config.blockedUrls.tier, 'lockdown') },
+    toolRestrictions,
+  };
 });
 
 // =============================================================================
@@ -189,8 +794,28 @@ export const ClawTaintConfigSchema = z.object({
 
 export type RestrictionTier = z.infer<typeof RestrictionTierSchema>;
 export type TaintThreshold = z.infer<typeof TaintThresholdSchema>;
+export type Tier = z.infer<typeof TierSchema>;
+export type SafeCommandSpec = z.infer<typeof SafeCommandSpecSchema>;
+export type SafeCommand = z.infer<typeof SafeCommandSchema>;
 export type ShellRestrictions = z.infer<typeof ShellRestrictionsSchema>;
+export type TimeRecovery = z.infer<typeof TimeRecoverySchema>;
+export type RepeatVisits = z.infer<typeof RepeatVisitsSchema>;
+export type RateRule = z.infer<typeof RateRuleSchema>;
 export type TaintConfig = z.infer<typeof TaintConfigSchema>;
+export type SessionConfig = z.infer<typeof SessionConfigSchema>;
+export type PersistenceConfig = z.infer<typeof PersistenceConfigSchema>;
+export type DataFlowConfig = ClawTaintConfig['dataFlow'];
+export type InjectionDetectionConfig = z.infer<typeof InjectionDetectionSchema>;
+export type UrlClass = z.infer<typeof UrlClassSchema>;
+export type Reputation = z.infer<typeof ReputationSchema>;
 export type TrustedUrls = z.infer<typeof TrustedUrlsSchema>;
+export type BlockedUrls = ClawTaintConfig['blockedUrls'];
+export type ToolProfile = z.infer<typeof ToolProfileSchema>;
+export type ArgumentFilter = z.infer<typeof ArgumentFilterSchema>;
+export type ToolRestriction = z.infer<typeof ToolRestrictionSchema>;
+export type PolicyMatch = z.infer<typeof PolicyMatchSchema>;
+export type CommandRewrite = z.infer<typeof CommandRewriteSchema>;
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type PolicyConfig = z.infer<typeof PolicyConfigSchema>;
 export type GlobalConfig = z.infer<typeof GlobalConfigSchema>;
 export type ClawTaintConfig = z.infer<typeof ClawTaintConfigSchema>;
@@ -0,0 +1,138 @@
+/**
+ * After Tool Call Hook Handler
+ *
+ * Inspects every tool result to:
+ * 1. Scan it for prompt injection → apply a taint penalty
+ * 2. Fingerprint content from untrusted URLs so later shell commands built
+ *    from it can be caught by the before-tool-call hook
+ */
+
+import type { ClawTaintConfig } from '../../config/schema.js';
+import type { Logger } from '../../utils/logger.js';
+import type { TaintSessionRegistry } from '../../taint/session-registry.js';
+import type { UrlTrustChecker } from '../../taint/url-trust.js';
+import type { InjectionDetector } from '../../taint/injection-detector.js';
+import type { ToolProfileRegistry } from '../../taint/tool-profiles.js';
+import { extractTextContent, type ContentTaintTracker } from '../../taint/content-taint.js';
+import type { AfterToolCallHandler, AfterToolCallContext, AfterToolCallResult } from '../../index.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AfterToolCallHandlerDeps {
+  sessions: TaintSessionRegistry;
+  urlTrustChecker: UrlTrustChecker;
+  contentTaint: ContentTaintTracker;
+  injectionDetector: InjectionDetector;
+  toolProfiles: ToolProfileRegistry;
+}
+
+// =============================================================================
+// HANDLER FACTORY
+// =============================================================================
+
+/**
+ * Create the after-tool-call handler.
+ *
+ * Flow:
+ * 1. Check if plugin is enabled
+ * 2. Collect the text content of the tool result
+ * 3. Scan it for prompt injection → penalize the session's taint level
+ * 4. Fingerprint it if it came from an untrusted URL (or carried an injection)
+ * 5. Return what was found
+ */
+export function createAfterToolCallHandler(
+  config: ClawTaintConfig,
+  deps: AfterToolCallHandlerDeps,
+  logger?: Logger
+): AfterToolCallHandler {
+  const log = logger;
+  const { sessions, urlTrustChecker, contentTaint, injectionDetector, toolProfiles } = deps;
+
+  return async (context: AfterToolCallContext): Promise<AfterToolCallResult> => {
+    try {
+      const toolName = context.toolName;
+      const toolInput = context.toolInput || context.params || {};
+
+      log?.debug(`[Hook:after-tool-call] Entry: tool=${toolName}, session=${context.sessionId ?? 'default'}`);
+
+      // 1. Check if plugin is disabled
+      if (config.global?.enabled === false) {
+        return {};
+      }
+
+      // 2. Collect the returned content
+      const content = extractTextContent(context.result);
+      if (content.length === 0) {
+        return {};
+      }
+
+      const urlCheck = urlTrustChecker.checkUrls(toolProfiles.extractUrls(toolName, toolInput));
+
+      // 3. Scan for prompt injection, whether or not the source is trusted
+      const scan = injectionDetector.scan(content);
+      const kinds = [...new Set(scan.findings.map((finding) => finding.kind))];
+
+      if (scan.detected) {
+        const taintTracker = sessions.getTracker(context.sessionId);
+        const origin = urlCheck.urlFound ? ` from ${urlCheck.domain || urlCheck.url}` : '';
+        const event = taintTracker.applyPenalty(
+          `Possible prompt injection in ${toolName} output${origin} (${kinds.join(', ')})`,
+          urlCheck.url,
+          urlCheck.domain,
+          { amount: config.injectionDetection.penalty, type: 'injection' }
+        );
+
+        log?.warn(
+          `[Hook:after-tool-call] Prompt injection suspected: tool=${toolName}, heuristics=${kinds.join(',')}, taint=${event.newLevel}`
+        );
+      }
+
+      // 4. Fingerprint untrusted (or injected) content from URLs
+      const fingerprinted = config.dataFlow.enabled && urlCheck.urlFound && (!urlCheck.trusted || scan.detected);
+      let fingerprints = 0;
+      if (fingerprinted) {
+        fingerprints = contentTaint.record(context.sessionId, content, {
+          url: urlCheck.url,
+          domain: urlCheck.domain,
+          toolName,
+        });
+      }
+
+      log?.debug(`[Hook:after-tool-call] Exit: tool=${toolName}, injection=${scan.detected}, fingerprints=${fingerprints}`);
+
+      // 5. Report findings
+      if (scan.detected) {
+        const taintTracker = sessions.getTracker(context.sessionId);
+        return {
+          metadata: {
+            category: 'prompt-injection',
+            severity: 'high',
+            reason: `Tool output matched injection heuristics: ${kinds.join(', ')}`,
+            taintLevel: taintTracker.getLevel(),
+            tier: taintTracker.getTier(),
+            findings: scan.findings.map((finding) => `${finding.kind}: ${finding.excerpt}`),
+            fingerprints,
+          },
+        };
+      }
+
+      if (fingerprinted) {
+        return {
+          metadata: {
+            category: 'data-flow',
+            reason: `Content from untrusted URL: ${urlCheck.domain || urlCheck.url}`,
+            fingerprints,
+          },
+        };
+      }
+
+      return {};
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log?.error(`[Hook:after-tool-call] Unhandled error: ${errorMessage}`);
+      return {};
+    }
+  };
+}
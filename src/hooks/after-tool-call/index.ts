@@ -0,0 +1,2 @@
+export { createAfterToolCallHandler } from './handler.js';
+export type { AfterToolCallHandlerDeps } from './handler.js';
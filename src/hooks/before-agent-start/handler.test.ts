@@ -4,7 +4,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { createBeforeAgentStartHandler, buildSecurityContextPrompt } from './handler.js';
-import { createTaintTracker } from '../../taint/tracker.js';
+import { createTaintSessionRegistry } from '../../taint/session-registry.js';
 import { getDefaultConfig } from '../../config/defaults.js';
 import type { AgentStartContext } from '../../index.js';
 
@@ -27,8 +27,8 @@ describe('buildSecurityContextPrompt', () => {
 
   it('should include trusted URL patterns', () => {
     const prompt = buildSecurityContextPrompt(config, 100, 'permissive');
-    expect(prompt).toContain('*.github.com');
-    expect(prompt).toContain('*.stackoverflow.com');
+    expect(prompt).toContain('.github.com');
+    expect(prompt).toContain('.stackoverflow.com');
   });
 
   it('should describe all tiers', () => {
@@ -44,8 +44,8 @@ describe('BeforeAgentStartHandler', () => {
   const config = getDefaultConfig();
 
   it('should inject security context on first call', async () => {
-    const taintTracker = createTaintTracker(config.taint);
-    const handler = createBeforeAgentStartHandler(config, { taintTracker });
+    const sessions = createTaintSessionRegistry(config.taint, config.sessions);
+    const handler = createBeforeAgentStartHandler(config, { sessions });
 
     const result = await handler(makeContext());
     expect(result.prependContext).toBeDefined();
@@ -54,8 +54,8 @@ describe('BeforeAgentStartHandler', () => {
   });
 
   it('should not re-inject for same session', async () => {
-    const taintTracker = createTaintTracker(config.taint);
-    const handler = createBeforeAgentStartHandler(config, { taintTracker });
+    const sessions = createTaintSessionRegistry(config.taint, config.sessions);
+    const handler = createBeforeAgentStartHandler(config, { sessions });
 
     await handler(makeContext({ sessionId: 'session-1' }));
     const result = await handler(makeContext({ sessionId: 'session-1' }));
@@ -63,8 +63,8 @@ describe('BeforeAgentStartHandler', () => {
   });
 
   it('should inject for different sessions', async () => {
-    const taintTracker = createTaintTracker(config.taint);
-    const handler = createBeforeAgentStartHandler(config, { taintTracker });
+    const sessions = createTaintSessionRegistry(config.taint, config.sessions);
+    const handler = createBeforeAgentStartHandler(config, { sessions });
 
     const r1 = await handler(makeContext({ sessionId: 'session-1' }));
     const r2 = await handler(makeContext({ sessionId: 'session-2' }));
@@ -72,10 +72,22 @@ describe('BeforeAgentStartHandler', () => {
     expect(r2.prependContext).toBeDefined();
   });
 
+  it('should report the taint level of the starting session', async () => {
+    const sessions = createTaintSessionRegistry(config.taint, config.sessions);
+    const handler = createBeforeAgentStartHandler(config, { sessions });
+
+    for (let i = 0; i < 3; i++) sessions.getTracker('session-1').applyPenalty(`url ${i}`);
+
+    const tainted = await handler(makeContext({ sessionId: 'session-1' }));
+    const clean = await handler(makeContext({ sessionId: 'session-2' }));
+    expect(tainted.prependContext).toContain('70/100');
+    expect(clean.prependContext).toContain('100/100');
+  });
+
   it('should return empty when disabled', async () => {
     const disabledConfig = { ...config, global: { ...config.global, enabled: false } };
-    const taintTracker = createTaintTracker(config.taint);
-    const handler = createBeforeAgentStartHandler(disabledConfig, { taintTracker });
+    const sessions = createTaintSessionRegistry(config.taint, config.sessions);
+    const handler = createBeforeAgentStartHandler(disabledConfig, { sessions });
 
     const result = await handler(makeContext());
     expect(result.prependContext).toBeUndefined();
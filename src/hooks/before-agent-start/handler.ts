@@ -8,7 +8,7 @@
 
 import type { ClawTaintConfig } from '../../config/schema.js';
 import type { Logger } from '../../utils/logger.js';
-import type { TaintTracker } from '../../taint/tracker.js';
+import type { TaintSessionRegistry } from '../../taint/session-registry.js';
 import type { AgentStartContext, BeforeAgentStartResult, BeforeAgentStartHandler } from '../../index.js';
 
 // =============================================================================
@@ -16,7 +16,7 @@ import type { AgentStartContext, BeforeAgentStartResult, BeforeAgentStartHandler
 // =============================================================================
 
 export interface BeforeAgentStartHandlerDeps {
-  taintTracker: TaintTracker;
+  sessions: TaintSessionRegistry;
 }
 
 // =============================================================================
@@ -79,7 +79,7 @@ export function createBeforeAgentStartHandler(
   logger?: Logger
 ): BeforeAgentStartHandler {
   const log = logger;
-  const { taintTracker } = deps;
+  const { sessions } = deps;
 
   // Track injected sessions to avoid duplicates
   const injectedSessions = new Set<string>();
@@ -104,7 +104,8 @@ export function createBeforeAgentStartHandler(
         return {};
       }
 
-      // Build prompt
+      // Build prompt from this session's taint state
+      const taintTracker = sessions.getTracker(context.sessionId);
       const prependContext = buildSecurityContextPrompt(
         config,
         taintTracker.getLevel(),
@@ -2,15 +2,25 @@
  * Before Tool Call Hook Handler
  *
  * Intercepts every tool call to:
- * 1. Check if the tool accesses a URL → update taint level
- * 2. Check if the tool is a shell command → enforce restrictions based on taint tier
+ * 1. Check if the tool accesses a URL → block known-malicious URLs, update taint level
+ * 2. Evaluate the policy rules → allow, block, warn about or rewrite the call
+ * 3. Check the tool's restrictions for the taint tier (any tool, by name or glob)
+ * 4. Check if the tool is a shell command → catch commands built from untrusted
+ *    content, then enforce restrictions based on taint tier
  */
 
 import type { ClawTaintConfig } from '../../config/schema.js';
 import type { Logger } from '../../utils/logger.js';
-import type { TaintTracker } from '../../taint/tracker.js';
-import type { UrlTrustChecker } from '../../taint/url-trust.js';
+import type { TaintSessionRegistry } from '../../taint/session-registry.js';
+import type { UrlCheckEntry, UrlTrustChecker } from '../../taint/url-trust.js';
+import type { UrlBlocklist } from '../../taint/url-blocklist.js';
 import type { ShellRestrictionEngine } from '../../taint/shell-restrictions.js';
+import type { ContentTaintTracker } from '../../taint/content-taint.js';
+import type { ToolProfileRegistry } from '../../taint/tool-profiles.js';
+import type { PolicyEngine } from '../../taint/policy-engine.js';
+import type { ToolRestrictionEngine } from '../../taint/tool-restrictions.js';
+import { rewriteCommand } from '../../taint/command-rewriter.js';
+import { strictestTier } from '../../taint/tracker.js';
 import type { BeforeToolCallHandler, ToolCallContext, BeforeToolCallResult } from '../../index.js';
 
 // =============================================================================
@@ -18,9 +28,14 @@ import type { BeforeToolCallHandler, ToolCallContext, BeforeToolCallResult } fro
 // =============================================================================
 
 export interface BeforeToolCallHandlerDeps {
-  taintTracker: TaintTracker;
+  sessions: TaintSessionRegistry;
   urlTrustChecker: UrlTrustChecker;
+  urlBlocklist: UrlBlocklist;
   shellEngine: ShellRestrictionEngine;
+  contentTaint: ContentTaintTracker;
+  toolProfiles: ToolProfileRegistry;
+  policyEngine: PolicyEngine;
+  toolRestrictions: ToolRestrictionEngine;
 }
 
 // =============================================================================
@@ -32,9 +47,16 @@ export interface BeforeToolCallHandlerDeps {
  *
  * Flow:
  * 1. Check if plugin is enabled
- * 2. Extract URL from tool input → check trust → update taint
- * 3. Check if tool is shell → enforce restrictions based on current tier
- * 4. Return allow/block result
+ * 2. Look up the session's taint tracker
+ * 3. Extract URLs from tool input (per the tool's profile) → block if blocklisted,
+ *    else check trust → update taint (scaled by the profile's penalty multiplier)
+ * 4. Evaluate policy rules → block, rewrite the input (params, flags, sandbox
+ *    prefix), or skip the tier restrictions (warn rules are logged)
+ * 5. Check the tool restrictions of the current tier (block, or filter arguments)
+ * 6. Check if tool is shell → block or escalate commands containing tainted
+ *    content, then enforce restrictions based on current tier
+ * 7. Return allow/block result, with the rule that decided in metadata.rule
+ *    (and, for a rewrite, the rewritten params and metadata.changes)
  */
 export function createBeforeToolCallHandler(
   config: ClawTaintConfig,
@@ -42,53 +64,231 @@ export function createBeforeToolCallHandler(
   logger?: Logger
 ): BeforeToolCallHandler {
   const log = logger;
-  const { taintTracker, urlTrustChecker, shellEngine } = deps;
+  const {
+    sessions, urlTrustChecker, urlBlocklist, shellEngine, contentTaint, toolProfiles, policyEngine, toolRestrictions,
+  } = deps;
+
+  /**
+   * The penalty for a non-trusted URL: its reputation class, downgrade or
+   * lookalike amount, or penaltyPerUntrustedUrl for unknown URLs.
+   */
+  function urlPenalty(entry: UrlCheckEntry): { amount: number; reason: string } {
+    const { reputation } = config.trustedUrls;
+    const target = entry.domain || entry.url;
+
+    switch (entry.classification) {
+      case 'http-downgrade':
+        return {
+          amount: config.trustedUrls.httpDowngradePenalty,
+          reason: `Accessed trusted host over plain HTTP: ${entry.domain}`,
+        };
+      case 'lookalike': {
+        const shown = `${entry.lookalike?.displayDomain ?? target} (${entry.lookalike?.kind})`;
+        return {
+          amount: config.trustedUrls.lookalikes.penalty,
+          reason: entry.lookalike?.target
+            ? `Accessed lookalike of trusted domain ${entry.lookalike.target}: ${shown}`
+            : `Accessed lookalike domain: ${shown}`,
+        };
+      }
+      case 'neutral':
+      case 'suspicious':
+      case 'malicious':
+        return {
+          amount: reputation[entry.classification].penalty,
+          reason: `Accessed ${entry.classification} URL: ${target} (matches ${entry.matchedPattern})`,
+        };
+      default:
+        return { amount: config.taint.penaltyPerUntrustedUrl, reason: `Accessed untrusted URL: ${target}` };
+    }
+  }
 
   return async (context: ToolCallContext): Promise<BeforeToolCallResult> => {
     try {
       const toolName = context.toolName;
-      const toolInput = context.toolInput || context.params || {};
+      let toolInput = context.toolInput || context.params || {};
 
-      log?.debug(`[Hook:before-tool-call] Entry: tool=${toolName}`);
+      log?.debug(`[Hook:before-tool-call] Entry: tool=${toolName}, session=${context.sessionId ?? 'default'}`);
 
       // 1. Check if plugin is disabled
       if (config.global?.enabled === false) {
         return { block: false };
       }
 
-      // 2. Check URL trust and update taint level
-      const urlCheck = urlTrustChecker.check(toolInput);
+      // 2. Resolve the taint tracker for this session
+      const taintTracker = sessions.getTracker(context.sessionId);
+
+      // 3. Check URL trust and update taint level
+      const urlCheck = urlTrustChecker.checkUrls(toolProfiles.extractUrls(toolName, toolInput));
+
+      // Known-malicious URLs drop the session straight to the configured tier
+      for (const entry of urlCheck.urls) {
+        const blockedBy = entry.domain ? urlBlocklist.match(entry.domain) : null;
+        if (!blockedBy) continue;
+
+        const reason = `Blocked URL: ${entry.domain} (matches ${blockedBy})`;
+        taintTracker.escalateToTier(config.blockedUrls.tier, reason, entry.url, entry.domain);
+
+        log?.warn(`[Hook:before-tool-call] BLOCKED: tool=${toolName}, url=${entry.url}, entry=${blockedBy}`);
+
+        return {
+          block: true,
+          blockReason: reason,
+          metadata: {
+            category: 'blocked-url',
+            severity: 'critical',
+            reason,
+            taintLevel: taintTracker.getLevel(),
+            tier: taintTracker.getTier(),
+            rule: 'blocked-url',
+          },
+        };
+      }
 
       if (urlCheck.urlFound) {
         if (urlCheck.trusted) {
-          // Trusted URL: optionally recover taint
+          // Every URL trusted: optionally recover taint (once per call)
           taintTracker.applyRecovery(
             `Accessed trusted URL: ${urlCheck.domain}`,
             urlCheck.url,
             urlCheck.domain
           );
         } else {
-          // Untrusted URL: apply penalty
-          const event = taintTracker.applyPenalty(
-            `Accessed untrusted URL: ${urlCheck.domain || urlCheck.url}`,
-            urlCheck.url,
-            urlCheck.domain
-          );
+          // Untrusted URL(s): penalize the worst one, or each one, by its
+          // class, scaled by the tool's profile (free classes cost nothing)
+          const penalized = config.taint.urlAggregation === 'each'
+            ? urlCheck.urls.filter((entry) => !entry.trusted)
+            : urlCheck.urls.filter((entry) => entry.url === urlCheck.url);
 
-          log?.info(
-            `Taint level: ${event.previousLevel} → ${event.newLevel} (tier: ${event.tier})`
-          );
+          const multiplier = toolProfiles.penaltyMultiplier(toolName);
+          for (const entry of penalized) {
+            const { amount, reason } = urlPenalty(entry);
+            if (amount <= 0) continue;
+
+            const event = taintTracker.applyPenalty(reason, entry.url, entry.domain, { amount: amount * multiplier });
+            log?.info(
+              `Taint level: ${event.previousLevel} → ${event.newLevel} (tier: ${event.tier})`
+            );
+          }
         }
       }
 
-      // 3. Check shell restrictions
-      if (shellEngine.isShellTool(toolName)) {
-        // Extract command from tool input
-        const command = extractCommand(toolInput);
+      // 4. Evaluate policy rules (a tool with several commands is matched as one script)
+      const isShell = shellEngine.isShellTool(toolName);
+      const policy = policyEngine.evaluate({
+        toolName,
+        tier: taintTracker.getTier(),
+        taintLevel: taintTracker.getLevel(),
+        sessionId: context.sessionId,
+        userId: context.userId,
+        command: isShell ? toolProfiles.extractCommands(toolName, toolInput).join('\n') || null : null,
+        urlClasses: urlCheck.urls.map((entry) => entry.classification),
+      });
+
+      for (const warning of policy.warnings) {
+        log?.warn(`[Hook:before-tool-call] Policy WARNING: tool=${toolName}, rule=${warning.name}, reason=${warning.reason ?? 'none'}`);
+      }
+
+      const decided = policy.rule;
+      if (decided?.action === 'block') {
+        const reason = decided.reason ?? `Blocked by policy rule "${decided.name}"`;
+        log?.info(`[Hook:before-tool-call] BLOCKED by policy: tool=${toolName}, rule=${decided.name}`);
+
+        return {
+          block: true,
+          blockReason: reason,
+          metadata: {
+            category: 'policy',
+            severity: 'high',
+            reason,
+            taintLevel: taintTracker.getLevel(),
+            tier: taintTracker.getTier(),
+            rule: decided.name,
+          },
+        };
+      }
+
+      // A rewrite merges its params, then edits every command; the checks
+      // below see the edited commands without the sandbox prefix
+      let innerCommands: string[] | null = null;
+      let changes: string[] = [];
+      if (decided?.action === 'rewrite') {
+        toolInput = { ...toolInput, ...decided.params };
+        if (isShell && decided.rewrite) {
+          innerCommands = [];
+          const changed = new Set<string>();
+          for (const original of toolProfiles.extractCommands(toolName, toolInput)) {
+            const rewritten = rewriteCommand(original, decided.rewrite, decided.match.argv);
+            toolInput = toolProfiles.replaceCommand(toolName, toolInput, original, rewritten.command);
+            innerCommands.push(rewritten.inner);
+            rewritten.changes.forEach((change) => changed.add(change));
+          }
+          changes = [...changed];
+        }
+        log?.info(`[Hook:before-tool-call] Rewritten by policy: tool=${toolName}, rule=${decided.name}, changes=${changes.join('; ') || 'params'}`);
+      }
+
+      // 5. Check tool restrictions (an allow rule skips them, like the tier rules)
+      if (decided?.action !== 'allow') {
+        const currentTier = taintTracker.getTier();
+        const toolCheck = toolRestrictions.check(toolName, toolInput, currentTier);
+
+        if (!toolCheck.allowed) {
+          log?.info(`[Hook:before-tool-call] Tool BLOCKED: tool=${toolName}, tier=${currentTier}, rule=${toolCheck.rule}`);
+
+          return {
+            block: true,
+            blockReason: toolCheck.reason,
+            metadata: {
+              category: 'tool-restriction',
+              severity: currentTier === strictestTier(config.taint.thresholds) ? 'critical' : 'high',
+              reason: toolCheck.reason || 'Tool call blocked by taint level restrictions',
+              taintLevel: taintTracker.getLevel(),
+              tier: currentTier,
+              rule: toolCheck.rule,
+            },
+          };
+        }
+      }
+
+      // 6. Check shell restrictions
+      if (isShell) {
+        // Every command the tool runs is checked on its own
+        const commands = innerCommands ?? toolProfiles.extractCommands(toolName, toolInput);
+
+        for (const command of commands) {
+          const matches = contentTaint.findMatches(context.sessionId, command);
+
+          if (matches.length > 0) {
+            const match = matches[0];
+            const origin = match.source.domain || match.source.url || 'an untrusted source';
+            const reason = `Command contains content from ${origin} (${match.kind}: ${match.value})`;
+
+            if (config.dataFlow.action === 'block') {
+              log?.info(`[Hook:before-tool-call] Shell command BLOCKED (data-flow): tool=${toolName}, source=${origin}`);
+
+              return {
+                block: true,
+                blockReason: reason,
+                metadata: {
+                  category: 'data-flow',
+                  severity: 'critical',
+                  reason,
+                  taintLevel: taintTracker.getLevel(),
+                  tier: taintTracker.getTier(),
+                  rule: 'data-flow',
+                },
+              };
+            }
+
+            taintTracker.escalateToTier(config.dataFlow.escalateTo, reason);
+          }
 
-        if (command) {
           const currentTier = taintTracker.getTier();
-          const shellCheck = shellEngine.check(command, currentTier);
+          // An allow rule skips the tier restrictions, not the always-blocked list
+          const shellCheck = shellEngine.check(command, currentTier, {
+            tierRules: decided?.action !== 'allow',
+          });
 
           if (!shellCheck.allowed) {
             log?.info(
@@ -100,19 +300,37 @@ export function createBeforeToolCallHandler(
               blockReason: shellCheck.reason,
               metadata: {
                 category: 'shell-restriction',
-                severity: currentTier === 'lockdown' ? 'critical' : 'high',
+                severity: currentTier === strictestTier(config.taint.thresholds) ? 'critical' : 'high',
                 reason: shellCheck.reason || 'Shell command blocked by taint level restrictions',
                 taintLevel: taintTracker.getLevel(),
                 tier: currentTier,
+                rule: shellCheck.rule,
               },
             };
           }
         }
       }
 
-      // 4. Allow the tool call
+      // 7. Allow the tool call
       log?.debug(`[Hook:before-tool-call] Exit: tool=${toolName}, result=allow, taint=${taintTracker.getLevel()}`);
-      return { block: false };
+
+      const reported = decided ?? policy.warnings[0];
+      if (!reported) return { block: false };
+
+      const changed = changes.length > 0 ? `: ${changes.join(', ')}` : '';
+      return {
+        block: false,
+        ...(decided?.action === 'rewrite' ? { params: toolInput } : {}),
+        metadata: {
+          category: 'policy',
+          severity: reported.action === 'warn' ? 'medium' : 'info',
+          reason: reported.reason ?? `Policy rule "${reported.name}" (${reported.action})${changed}`,
+          taintLevel: taintTracker.getLevel(),
+          tier: taintTracker.getTier(),
+          rule: reported.name,
+          ...(changes.length > 0 ? { changes } : {}),
+        },
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       log?.error(`[Hook:before-tool-call] Unhandled error: ${errorMessage}`);
@@ -120,22 +338,3 @@ export function createBeforeToolCallHandler(
     }
   };
 }
-
-// =============================================================================
-// HELPERS
-// =============================================================================
-
-/**
- * Extract the command string from tool input.
- * Handles various field names used by different shell tools.
- */
-function extractCommand(toolInput: Record<string, unknown>): string | null {
-  const commandFields = ['command', 'cmd', 'script', 'input', 'code', 'content'];
-  for (const field of commandFields) {
-    const value = toolInput[field];
-    if (typeof value === 'string' && value.trim().length > 0) {
-      return value.trim();
-    }
-  }
-  return null;
-}
@@ -21,10 +21,18 @@ export const PLUGIN_NAME = 'ClawTaint - Taint Level Plugin';
 import { createLogger, createNoOpLogger, type Logger } from './utils/logger.js';
 import { loadConfig } from './config/loader.js';
 import type { ClawTaintConfig } from './config/schema.js';
-import { createTaintTracker, type TaintTracker } from './taint/tracker.js';
+import { createTaintSessionRegistry, type TaintSessionRegistry } from './taint/session-registry.js';
+import { createStateStore } from './taint/state-store.js';
 import { createUrlTrustChecker, type UrlTrustChecker } from './taint/url-trust.js';
+import { createUrlBlocklist, type UrlBlocklist } from './taint/url-blocklist.js';
 import { createShellRestrictionEngine, type ShellRestrictionEngine } from './taint/shell-restrictions.js';
+import { createContentTaintTracker, type ContentTaintTracker } from './taint/content-taint.js';
+import { createToolProfiles, type ToolProfileRegistry } from './taint/tool-profiles.js';
+import { createInjectionDetector, type InjectionDetector } from './taint/injection-detector.js';
+import { createPolicyEngine, type PolicyEngine } from './taint/policy-engine.js';
+import { createToolRestrictionEngine, type ToolRestrictionEngine } from './taint/tool-restrictions.js';
 import { createBeforeToolCallHandler } from './hooks/before-tool-call/handler.js';
+import { createAfterToolCallHandler } from './hooks/after-tool-call/handler.js';
 import { createBeforeAgentStartHandler } from './hooks/before-agent-start/handler.js';
 
 // =============================================================================
@@ -63,6 +71,8 @@ export interface BeforeToolCallResult {
     taintLevel?: number;
     tier?: string;
     rule?: string;
+    /** What a rewrite rule changed in the command */
+    changes?: string[];
   };
 }
 
@@ -73,6 +83,37 @@ export type BeforeToolCallHandler = (
   context: ToolCallContext
 ) => Promise<BeforeToolCallResult>;
 
+/**
+ * Tool call context passed to after-tool-call hook
+ */
+export interface AfterToolCallContext extends ToolCallContext {
+  result?: unknown;
+  error?: string;
+  durationMs?: number;
+}
+
+/**
+ * Result from after-tool-call hook
+ */
+export interface AfterToolCallResult {
+  metadata?: {
+    category?: string;
+    severity?: string;
+    reason?: string;
+    taintLevel?: number;
+    tier?: string;
+    findings?: string[];
+    fingerprints?: number;
+  };
+}
+
+/**
+ * Handler type for after-tool-call hook
+ */
+export type AfterToolCallHandler = (
+  context: AfterToolCallContext
+) => Promise<AfterToolCallResult>;
+
 /**
  * Agent start context
  */
@@ -120,6 +161,8 @@ export interface PluginConfig {
   configPath?: string;
   enabled?: boolean;
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
+  /** Agent workspace directory (overrides shellRestrictions.workspaceRoot) */
+  workspaceRoot?: string;
 }
 
 // =============================================================================
@@ -133,9 +176,15 @@ interface PluginState {
   initialized: boolean;
   logger: Logger;
   // Core components
-  taintTracker: TaintTracker | null;
+  sessions: TaintSessionRegistry | null;
   urlTrustChecker: UrlTrustChecker | null;
+  urlBlocklist: UrlBlocklist | null;
   shellEngine: ShellRestrictionEngine | null;
+  contentTaint: ContentTaintTracker | null;
+  injectionDetector: InjectionDetector | null;
+  toolProfiles: ToolProfileRegistry | null;
+  policyEngine: PolicyEngine | null;
+  toolRestrictions: ToolRestrictionEngine | null;
 }
 
 const state: PluginState = {
@@ -144,9 +193,15 @@ const state: PluginState = {
   clawtaintConfig: null,
   initialized: false,
   logger: createNoOpLogger(),
-  taintTracker: null,
+  sessions: null,
   urlTrustChecker: null,
+  urlBlocklist: null,
   shellEngine: null,
+  contentTaint: null,
+  injectionDetector: null,
+  toolProfiles: null,
+  policyEngine: null,
+  toolRestrictions: null,
 };
 
 // =============================================================================
@@ -191,24 +246,62 @@ export function activate(api: OpenClawPluginAPI): () => void {
     state.clawtaintConfig = config;
   }
 
+  // The agent's workspace takes precedence over the configured one
+  if (state.config?.workspaceRoot) {
+    config = {
+      ...config,
+      shellRestrictions: { ...config.shellRestrictions, workspaceRoot: state.config.workspaceRoot },
+    };
+    state.clawtaintConfig = config;
+  }
+
   // Initialize core components
-  state.taintTracker = createTaintTracker(config.taint, state.logger);
+  const stateStore = createStateStore(config.persistence, state.logger);
+  state.sessions = createTaintSessionRegistry(config.taint, config.sessions, state.logger, stateStore);
+  const restored = state.sessions.restoreSessions();
+  if (restored > 0) {
+    state.logger.info(`Restored taint state for ${restored} session(s)`);
+  }
   state.urlTrustChecker = createUrlTrustChecker(config.trustedUrls, state.logger);
-  state.shellEngine = createShellRestrictionEngine(config.shellRestrictions, state.logger);
+  state.urlBlocklist = createUrlBlocklist(config.blockedUrls, state.logger);
+  state.shellEngine = createShellRestrictionEngine(config.shellRestrictions, state.logger, state.urlTrustChecker);
+  state.contentTaint = createContentTaintTracker(config.dataFlow, config.sessions, state.logger);
+  state.injectionDetector = createInjectionDetector(config.injectionDetection, state.logger);
+  state.toolProfiles = createToolProfiles(config.tools, state.logger);
+  state.policyEngine = createPolicyEngine(config.policy, state.logger);
+  state.toolRestrictions = createToolRestrictionEngine(
+    config.toolRestrictions,
+    config.shellRestrictions.workspaceRoot,
+    state.logger
+  );
 
   // Create hook handlers
   const beforeToolCallHandler = createBeforeToolCallHandler(config, {
-    taintTracker: state.taintTracker,
+    sessions: state.sessions,
     urlTrustChecker: state.urlTrustChecker,
+    urlBlocklist: state.urlBlocklist,
     shellEngine: state.shellEngine,
+    contentTaint: state.contentTaint,
+    toolProfiles: state.toolProfiles,
+    policyEngine: state.policyEngine,
+    toolRestrictions: state.toolRestrictions,
+  }, state.logger);
+
+  const afterToolCallHandler = createAfterToolCallHandler(config, {
+    sessions: state.sessions,
+    urlTrustChecker: state.urlTrustChecker,
+    contentTaint: state.contentTaint,
+    injectionDetector: state.injectionDetector,
+    toolProfiles: state.toolProfiles,
   }, state.logger);
 
   const beforeAgentStartHandler = createBeforeAgentStartHandler(config, {
-    taintTracker: state.taintTracker,
+    sessions: state.sessions,
   }, state.logger);
 
   // Register hooks with OpenClaw
   api.on('before_tool_call', beforeToolCallHandler, { priority: 100 });
+  api.on('after_tool_call', afterToolCallHandler, { priority: 100 });
   api.on('before_agent_start', beforeAgentStartHandler, { priority: 50 });
 
   state.initialized = true;
@@ -228,9 +321,17 @@ export function deactivate(): void {
   state.api = null;
   state.config = null;
   state.clawtaintConfig = null;
-  state.taintTracker = null;
+  state.sessions?.clear();
+  state.sessions = null;
   state.urlTrustChecker = null;
+  state.urlBlocklist = null;
   state.shellEngine = null;
+  state.contentTaint?.clear();
+  state.contentTaint = null;
+  state.injectionDetector = null;
+  state.toolProfiles = null;
+  state.policyEngine = null;
+  state.toolRestrictions = null;
   state.initialized = false;
   state.logger = createNoOpLogger();
 }
@@ -243,13 +344,16 @@ export function isActive(): boolean {
 }
 
 /**
- * Get the current taint state (for testing/debugging)
+ * Get the current taint state of a session (for testing/debugging).
+ * Without a session ID, the default session is used; unknown sessions return null.
  */
-export function getTaintState(): { level: number; tier: string } | null {
-  if (!state.taintTracker) return null;
+export function getTaintState(sessionId?: string): { level: number; tier: string } | null {
+  if (!state.sessions) return null;
+  if (sessionId !== undefined && !state.sessions.has(sessionId)) return null;
+  const tracker = state.sessions.getTracker(sessionId);
   return {
-    level: state.taintTracker.getLevel(),
-    tier: state.taintTracker.getTier(),
+    level: tracker.getLevel(),
+    tier: tracker.getTier(),
   };
 }
 
@@ -276,6 +380,10 @@ export const pluginConfigSchema = {
       default: 'info',
       description: 'Logging verbosity level',
     },
+    workspaceRoot: {
+      type: 'string',
+      description: 'Agent workspace directory (overrides shellRestrictions.workspaceRoot)',
+    },
   },
   additionalProperties: false,
 } as const;
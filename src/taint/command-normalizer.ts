@@ -0,0 +1,340 @@
+/**
+ * Command Normalizer
+ *
+ * Normalizes parsed shell commands so that command patterns cannot be
+ * dodged with quoting, extra whitespace, absolute paths or reordered flags
+ * (`r''m  -fr`, `/bin/rm -r -f` and `rm -rf` all look the same), and flags
+ * opaque execution constructs whose real command cannot be seen statically
+ * (eval, base64-decoded scripts piped to a shell, `sh -c "$VAR"`).
+ */
+
+import {
+  parseShellCommand,
+  unwrapCommand,
+  commandBasename,
+  type ParsedShellScript,
+  type ShellCommand,
+} from './shell-parser.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface NormalizedCommand {
+  /** Lowercased command name without its directory (after unwrapping sudo, env, …) */
+  base: string;
+  /** Short flags, split out of clusters (-rf → r, f) and lowercased */
+  flags: Set<string>;
+  /** Remaining words (long flags and arguments), lowercased, in order */
+  args: string[];
+  /** Normalized text: base, then argv words separated by single spaces */
+  text: string;
+  /** The parsed command this was built from */
+  source: ShellCommand;
+}
+
+export interface CommandAnalysis {
+  /** The command as received */
+  raw: string;
+  /** Parsed script */
+  script: ParsedShellScript;
+  /** Normalized form of every command, including decoded payloads */
+  commands: NormalizedCommand[];
+  /** Normalized pipelines, including decoded payloads */
+  pipelines: NormalizedCommand[][];
+  /** Scripts recovered by decoding literal base64 payloads */
+  decodedPayloads: string[];
+  /** Strings that command patterns are matched against as substrings */
+  matchTargets: string[];
+}
+
+export type OpaqueExecutionKind =
+  | 'eval'
+  | 'decoded-shell'
+  | 'dynamic-shell-script'
+  | 'dynamic-command'
+  | 'substituted-script';
+
+export interface OpaqueExecutionFinding {
+  /** What kind of opaque construct was found */
+  kind: OpaqueExecutionKind;
+  /** Source text of the offending command */
+  command: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'ash', 'fish', 'busybox']);
+
+/** Long options that mean the same as a common short flag */
+const LONG_FLAG_ALIASES: Record<string, string> = {
+  '--recursive': 'r',
+  '--force': 'f',
+};
+
+// =============================================================================
+// NORMALIZATION
+// =============================================================================
+
+/**
+ * Collapse runs of whitespace into single spaces and lowercase.
+ */
+export function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Normalize a parsed command: unwrap wrappers, strip the command's
+ * directory, lowercase, and split short flag clusters into a set.
+ */
+export function normalizeCommand(command: ShellCommand): NormalizedCommand {
+  const argv = unwrapCommand(command.argv);
+  const base = commandBasename(argv[0] ?? '').toLowerCase();
+  const flags = new Set<string>();
+  const args: string[] = [];
+
+  for (const word of argv.slice(1)) {
+    const lower = word.toLowerCase();
+    if (/^-[a-z]+$/.test(lower)) {
+      for (const flag of lower.slice(1)) flags.add(flag);
+    } else if (LONG_FLAG_ALIASES[lower]) {
+      flags.add(LONG_FLAG_ALIASES[lower]);
+    } else {
+      args.push(lower);
+    }
+  }
+
+  const text = normalizeWhitespace([base, ...argv.slice(1)].join(' '));
+  return { base, flags, args, text, source: command };
+}
+
+/**
+ * Decode literal base64 payloads fed to a decoder, e.g.
+ * `echo cm0gLXJmIC8= | base64 -d` or `base64 -d <<< cm0gLXJmIC8=`.
+ */
+function decodePayloads(script: ParsedShellScript): string[] {
+  const payloads: string[] = [];
+
+  for (const pipeline of script.pipelines) {
+    pipeline.forEach((command, index) => {
+      if (!isBase64Decoder(command)) return;
+
+      const literals: string[] = [];
+      for (const redirection of command.redirections) {
+        if (redirection.op === '<<<') literals.push(redirection.target);
+        if (redirection.body !== undefined) literals.push(redirection.body);
+      }
+      const previous = pipeline[index - 1];
+      if (previous && ['echo', 'printf'].includes(commandBasename(previous.argv[0] ?? ''))) {
+        literals.push(previous.argv.slice(1).filter((arg) => !arg.startsWith('-')).join(''));
+      }
+
+      for (const literal of literals) {
+        const decoded = decodeBase64(literal);
+        if (decoded) payloads.push(decoded);
+      }
+    });
+  }
+
+  return payloads;
+}
+
+function isBase64Decoder(command: ShellCommand): boolean {
+  const argv = unwrapCommand(command.argv);
+  const base = commandBasename(argv[0] ?? '').toLowerCase();
+  return (base === 'base64' || base === 'base32')
+    && argv.some((arg) => arg === '--decode' || /^-[a-z]*[dD]/.test(arg));
+}
+
+function decodeBase64(literal: string): string | null {
+  const compact = literal.replace(/\s+/g, '');
+  if (compact.length === 0 || !/^[A-Za-z0-9+/=_-]+$/.test(compact) || compact.includes('$')) return null;
+
+  const decoded = Buffer.from(compact, 'base64').toString('utf-8');
+  // Only keep payloads that decode to printable text
+  return /^[\x20-\x7e\t\r\n]+$/.test(decoded) ? decoded : null;
+}
+
+/**
+ * Parse, normalize and decode a command string for pattern matching.
+ */
+export function analyzeCommand(raw: string): CommandAnalysis {
+  const script = parseShellCommand(raw);
+  const decodedPayloads = decodePayloads(script);
+
+  const commands = script.commands.map(normalizeCommand);
+  const pipelines = script.pipelines.map((pipeline) => pipeline.map(normalizeCommand));
+
+  for (const payload of decodedPayloads) {
+    const decoded = parseShellCommand(payload);
+    commands.push(...decoded.commands.map(normalizeCommand));
+    pipelines.push(...decoded.pipelines.map((pipeline) => pipeline.map(normalizeCommand)));
+  }
+
+  const matchTargets = [raw, normalizeWhitespace(raw), ...decodedPayloads.map(normalizeWhitespace)];
+  for (const command of commands) {
+    matchTargets.push(command.text);
+  }
+  for (const pipeline of pipelines) {
+    if (pipeline.length > 1) {
+      matchTargets.push(pipeline.map((command) => command.base).join(' | '));
+    }
+  }
+
+  return { raw, script, commands, pipelines, decodedPayloads, matchTargets };
+}
+
+// =============================================================================
+// PATTERN MATCHING
+// =============================================================================
+
+interface CompiledPattern {
+  normalized: string;
+  stages: NormalizedCommand[];
+}
+
+const patternCache = new Map<string, CompiledPattern>();
+
+function compilePattern(pattern: string): CompiledPattern {
+  let compiled = patternCache.get(pattern);
+  if (!compiled) {
+    const parsed = parseShellCommand(pattern);
+    const stages = parsed.pipelines.length === 1 ? parsed.pipelines[0].map(normalizeCommand) : [];
+    compiled = { normalized: normalizeWhitespace(pattern), stages };
+    patternCache.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Token-level match: same command, pattern flags are a subset of the
+ * command's flags, and pattern arguments prefix command arguments in order.
+ */
+function matchesStage(command: NormalizedCommand, stage: NormalizedCommand): boolean {
+  if (stage.base === '') return matchesRedirections(command, stage);
+  if (command.base !== stage.base) return false;
+
+  for (const flag of stage.flags) {
+    if (!command.flags.has(flag)) return false;
+  }
+
+  let next = 0;
+  for (const arg of stage.args) {
+    while (next < command.args.length && !command.args[next].startsWith(arg)) next++;
+    if (next >= command.args.length) return false;
+    next++;
+  }
+  return true;
+}
+
+/**
+ * Redirection-only patterns (e.g. "> /dev/sda") match any command with the
+ * same redirection operator and a target starting with the pattern's target.
+ */
+function matchesRedirections(command: NormalizedCommand, stage: NormalizedCommand): boolean {
+  const wanted = stage.source.redirections;
+  if (wanted.length === 0) return false;
+
+  return wanted.every((pattern) =>
+    command.source.redirections.some((redirection) =>
+      redirection.op === pattern.op
+      && redirection.target.toLowerCase().startsWith(pattern.target.toLowerCase())
+    )
+  );
+}
+
+/**
+ * Check whether a command pattern (e.g. "rm -rf", "curl | sh", "DROP TABLE")
+ * matches an analyzed command.
+ */
+export function matchesCommandPattern(analysis: CommandAnalysis, pattern: string): boolean {
+  const compiled = compilePattern(pattern);
+
+  // Substring match against raw and normalized forms
+  if (analysis.matchTargets.some((target) => target.toLowerCase().includes(compiled.normalized))) {
+    return true;
+  }
+
+  // Token match against individual commands
+  if (compiled.stages.length === 1) {
+    return analysis.commands.some((command) => matchesStage(command, compiled.stages[0]));
+  }
+
+  // Pipeline patterns: stages appear in order within one pipeline
+  if (compiled.stages.length > 1) {
+    return analysis.pipelines.some((pipeline) => {
+      let stageIndex = 0;
+      for (const command of pipeline) {
+        if (matchesStage(command, compiled.stages[stageIndex])) stageIndex++;
+        if (stageIndex === compiled.stages.length) return true;
+      }
+      return false;
+    });
+  }
+
+  return false;
+}
+
+/**
+ * Find the first pattern that matches an analyzed command.
+ */
+export function findMatchingPattern(analysis: CommandAnalysis, patterns: string[]): string | undefined {
+  return patterns.find((pattern) => matchesCommandPattern(analysis, pattern));
+}
+
+// =============================================================================
+// OPAQUE EXECUTION
+// =============================================================================
+
+function isDynamicWord(word: string): boolean {
+  return word.includes('$') || word.includes('`');
+}
+
+/**
+ * Find constructs that execute code which cannot be inspected statically.
+ */
+export function detectOpaqueExecution(analysis: CommandAnalysis): OpaqueExecutionFinding[] {
+  const findings: OpaqueExecutionFinding[] = [];
+
+  for (const command of analysis.commands) {
+    const argv = unwrapCommand(command.source.argv);
+    const text = command.source.text;
+
+    if (command.base === 'eval') {
+      findings.push({ kind: 'eval', command: text });
+      continue;
+    }
+
+    if (argv.length > 0 && isDynamicWord(argv[0])) {
+      findings.push({ kind: 'dynamic-command', command: text });
+      continue;
+    }
+
+    if (SHELLS.has(command.base) || command.base === 'source' || command.base === '.') {
+      const scriptIndex = argv.findIndex((arg) => /^-[a-z]*c[a-z]*$/i.test(arg));
+      const script = scriptIndex >= 0 ? argv[scriptIndex + 1] : undefined;
+      if (script !== undefined && isDynamicWord(script)) {
+        findings.push({ kind: 'dynamic-shell-script', command: text });
+        continue;
+      }
+      if (argv.slice(1).some((arg) => arg === '<(…)' || arg === '/dev/stdin')) {
+        findings.push({ kind: 'substituted-script', command: text });
+      }
+    }
+  }
+
+  for (const pipeline of analysis.script.pipelines) {
+    const decoderIndex = pipeline.findIndex(isBase64Decoder);
+    if (decoderIndex < 0) continue;
+    const feedsShell = pipeline
+      .slice(decoderIndex + 1)
+      .some((command) => SHELLS.has(commandBasename(unwrapCommand(command.argv)[0] ?? '').toLowerCase()));
+    if (feedsShell) {
+      findings.push({ kind: 'decoded-shell', command: pipeline.map((command) => command.text).join(' | ') });
+    }
+  }
+
+  return findings;
+}
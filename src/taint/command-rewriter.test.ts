@@ -0,0 +1,82 @@
+/**
+ * Tests for Command Rewriter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rewriteCommand } from './command-rewriter.js';
+import { CommandRewriteSchema } from '../config/schema.js';
+
+function rewrite(command: string, raw: Record<string, unknown>, argv?: string[]) {
+  return rewriteCommand(command, CommandRewriteSchema.parse(raw), argv);
+}
+
+describe('rewriteCommand', () => {
+  it('should leave the command alone when nothing applies', () => {
+    expect(rewrite('git push origin main', { removeFlags: ['--force'] })).toEqual({
+      command: 'git push origin main',
+      inner: 'git push origin main',
+      changes: [],
+    });
+  });
+
+  it('should remove flags, their values and cluster letters', () => {
+    expect(rewrite('git push --force origin main', { removeFlags: ['--force'] }).command).toBe('git push origin main');
+    expect(rewrite('git push --force-with-lease=main origin', { removeFlags: ['--force-with-lease'] }).command).toBe('git push origin');
+    expect(rewrite('rm -rf build', { removeFlags: ['-f'] }).command).toBe('rm -r build');
+
+    const result = rewrite('git push -f origin && git push --force', { removeFlags: ['-f', '--force'] }, ['git', 'push']);
+    expect(result.command).toBe('git push origin && git push');
+    expect(result.changes).toEqual(['removed "-f"', 'removed "--force"']);
+  });
+
+  it('should remove one letter per flag from a cluster and drop emptied clusters', () => {
+    expect(rewrite('git clean -ff', { removeFlags: ['-f'] }).command).toBe('git clean -f');
+    expect(rewrite('rm -rf build', { removeFlags: ['-f', '-r'] }).command).toBe('rm build');
+    expect(rewrite('git clean -fdx', { removeFlags: ['-x', '-f'] }).command).toBe('git clean -d');
+  });
+
+  it('should not split single-dash long options', () => {
+    const find = rewrite('find . -delete', { removeFlags: ['-e'] });
+    expect(find.command).toBe('find . -delete');
+    expect(find.changes).toEqual([]);
+    expect(rewrite('go test -failfast ./...', { removeFlags: ['-f'] }).command).toBe('go test -failfast ./...');
+    expect(rewrite('sudo find / -delete', { removeFlags: ['-delete'] }).command).toBe('sudo find /');
+  });
+
+  it('should only remove flags from the commands the rule matches', () => {
+    expect(rewrite('tar -xf a.tar && rm -rf build', { removeFlags: ['-f'] }, ['rm']).command).toBe('tar -xf a.tar && rm -r build');
+    expect(rewrite('tar -xf a.tar', { removeFlags: ['-f'] }, ['rm']).changes).toEqual([]);
+    expect(rewrite('rm -f a; rm -f b', { removeFlags: ['-f'] }).command).toBe('rm a; rm -f b');
+  });
+
+  it('should not touch quoted text or substitutions', () => {
+    expect(rewrite('git commit -m "no --force here"', { removeFlags: ['--force'] }).command).toBe('git commit -m "no --force here"');
+    expect(rewrite('echo $(git push --force)', { removeFlags: ['--force'] }).command).toBe('echo $(git push --force)');
+  });
+
+  it('should add flags after the command name of the first command', () => {
+    const result = rewrite('rm a.txt 2>&1 && ls', { addFlags: ['-i'] });
+    expect(result.command).toBe('rm -i a.txt 2>&1 && ls');
+    expect(result.changes).toEqual(['added "-i"']);
+    expect(rewrite('rm a.txt; sudo rm b.txt', { addFlags: ['-i'] }, ['rm']).command).toBe('rm -i a.txt; sudo rm -i b.txt');
+  });
+
+  it('should add flags after the matched argv words', () => {
+    expect(rewrite('cd repo && git push origin main', { addFlags: ['--dry-run'] }, ['git', 'push']).command)
+      .toBe('cd repo && git push --dry-run origin main');
+    expect(rewrite('git push --dry-run', { addFlags: ['--dry-run'] }, ['git', 'push']).changes).toEqual([]);
+    expect(rewrite('ls && rm -r build', { addFlags: ['--dry-run'] }, ['rm']).command).toBe('ls && rm --dry-run -r build');
+  });
+
+  it('should replace a removed flag with an added one', () => {
+    expect(rewrite('git push --force', { removeFlags: ['--force'], addFlags: ['--force-with-lease'] }, ['git', 'push']).command)
+      .toBe('git push --force-with-lease');
+  });
+
+  it('should wrap the script in the sandbox prefix', () => {
+    const result = rewrite("cat notes.txt | grep 'x' > out.txt", { prefix: 'firejail --net=none' });
+    expect(result.command).toBe(`firejail --net=none sh -c 'cat notes.txt | grep '\\''x'\\'' > out.txt'`);
+    expect(result.inner).toBe("cat notes.txt | grep 'x' > out.txt");
+    expect(result.changes).toEqual(['sandboxed with "firejail --net=none"']);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Command Rewriter
+ *
+ * Applies a policy rule's command rewrite to a shell command instead of
+ * blocking it: removes flags (`--force`), inserts flags (`--dry-run`, `-i`)
+ * and wraps the script in a sandbox prefix (`firejail --net=none`, `bwrap …`,
+ * `unshare -n`).
+ *
+ * The command is edited as text so everything else stays as written. Only
+ * unquoted words are touched; `$(...)` substitutions and quoted strings are
+ * left alone. With a prefix, the whole script runs under `sh -c` so that its
+ * redirections and pipelines are sandboxed too.
+ */
+
+import type { CommandRewrite } from '../config/schema.js';
+import { wildcardToRegex } from './policy-engine.js';
+import { commandBasename, unwrapCommand } from './shell-parser.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CommandRewriteResult {
+  /** The command to run */
+  command: string;
+  /** The rewritten command without the sandbox prefix (what the agent asked to run) */
+  inner: string;
+  /** What changed, e.g. 'removed "--force"' (empty when nothing did) */
+  changes: string[];
+}
+
+interface Word {
+  /** Word as written */
+  raw: string;
+  /** Word with quotes and backslashes removed */
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Reserved words a flag must not be inserted after */
+const RESERVED_WORDS = new Set(['if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', 'for', 'case', 'esac', '!', '{', '}']);
+
+const CONTROL_CHARS = ';&|()\n';
+
+/**
+ * Commands whose long options take a single dash ("find -delete",
+ * "go test -failfast"): their words are never split as flag clusters
+ */
+const SINGLE_DASH_COMMANDS = new Set([
+  'find', 'go', 'java', 'javac', 'gcc', 'g++', 'cc', 'clang', 'clang++', 'ffmpeg', 'ffprobe',
+  'terraform', 'openssl', 'xcodebuild', 'dig', 'swift', 'kotlinc',
+]);
+
+// =============================================================================
+// TOKENIZING
+// =============================================================================
+
+/** Whether a control character is part of a redirection ("2>&1", "&>", ">|") */
+function inRedirection(command: string, i: number): boolean {
+  const char = command[i];
+  if (char === '&') return command[i - 1] === '>' || command[i - 1] === '<' || command[i + 1] === '>';
+  return char === '|' && command[i - 1] === '>';
+}
+
+/**
+ * Split a command into the words of each simple command, with their
+ * positions. Quotes, backslashes and `$(...)` stay inside their word.
+ */
+function splitCommands(command: string): Word[][] {
+  const commands: Word[][] = [[]];
+  let i = 0;
+
+  while (i < command.length) {
+    const char = command[i];
+    if (char === ' ' || char === '\t') {
+      i++;
+      continue;
+    }
+    if (CONTROL_CHARS.includes(char) && !inRedirection(command, i)) {
+      if (commands[commands.length - 1].length > 0) commands.push([]);
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let quote: string | null = null;
+    let depth = 0;
+    while (i < command.length) {
+      const c = command[i];
+      if (quote) {
+        if (c === '\\' && quote !== "'") i++;
+        else if (c === quote) quote = null;
+        i++;
+      } else if (c === '\\') {
+        i += 2;
+      } else if (c === "'" || c === '"' || c === '`') {
+        quote = c;
+        i++;
+      } else if (c === '$' && command[i + 1] === '(') {
+        depth++;
+        i += 2;
+      } else if (depth > 0) {
+        if (c === ')') depth--;
+        i++;
+      } else if (c === ' ' || c === '\t' || (CONTROL_CHARS.includes(c) && !inRedirection(command, i))) {
+        break;
+      } else {
+        i++;
+      }
+    }
+
+    const end = Math.min(i, command.length);
+    const raw = command.slice(start, end);
+    commands[commands.length - 1].push({ raw, value: raw.replace(/\\(.)|['"]/g, '$1'), start, end });
+  }
+
+  return commands.filter((words) => words.length > 0);
+}
+
+/** Apply edits back to front (an insertion after a removal at the same position) */
+function applyEdits(command: string, edits: Edit[]): string {
+  let result = command;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start || b.end - a.end)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/** Quote a script as a single shell word */
+function shellQuote(script: string): string {
+  return `'${script.replace(/'/g, `'\\''`)}'`;
+}
+
+// =============================================================================
+// REWRITES
+// =============================================================================
+
+/**
+ * The edit that removes flags from a word, and the flags it removes: the
+ * whole word (with the whitespace before it) for a flag or "--flag=value",
+ * or one letter per short flag from a cluster (`clusters`), dropping the
+ * word when no letter is left.
+ */
+function removeFlags(
+  command: string,
+  word: Word,
+  flags: string[],
+  clusters: boolean
+): { edit: Edit; removed: string[] } | null {
+  const dropWord = (): Edit => {
+    let start = word.start;
+    while (start > 0 && (command[start - 1] === ' ' || command[start - 1] === '\t')) start--;
+    return { start, end: word.end, text: '' };
+  };
+
+  const whole = flags.find((flag) => word.value === flag || (flag.startsWith('--') && word.value.startsWith(`${flag}=`)));
+  if (whole) return { edit: dropWord(), removed: [whole] };
+  if (!clusters || !/^-[A-Za-z0-9]{2,}$/.test(word.raw)) return null;
+
+  let letters = word.raw.slice(1);
+  const removed: string[] = [];
+  for (const flag of flags) {
+    const at = /^-[A-Za-z0-9]$/.test(flag) ? letters.indexOf(flag[1]) : -1;
+    if (at === -1) continue;
+    letters = letters.slice(0, at) + letters.slice(at + 1);
+    removed.push(flag);
+  }
+  if (removed.length === 0) return null;
+  return { edit: letters ? { start: word.start, end: word.end, text: `-${letters}` } : dropWord(), removed };
+}
+
+/** The number of leading variable assignments ("FOO=bar") */
+function assignmentCount(words: Word[]): number {
+  let count = 0;
+  while (count < words.length && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[count].raw)) count++;
+  return count;
+}
+
+/** The command a simple command runs, past assignments and wrappers ("sudo go" → "go") */
+function commandName(words: Word[]): string {
+  const values = words.slice(assignmentCount(words)).map((word) => word.value);
+  return commandBasename(unwrapCommand(values)[0] ?? '');
+}
+
+/**
+ * The index of the last word naming the command: the words of `argv`
+ * (matched as in policy rules, through sudo/env/…), or the command name.
+ * Flags are inserted after it and removed only after it. -1 when the
+ * command does not qualify.
+ */
+function commandNameIndex(words: Word[], argv: string[] | undefined): number {
+  const first = assignmentCount(words);
+  const values = words.slice(first).map((word) => word.value);
+  const unwrapped = unwrapCommand(values);
+  if (unwrapped.length === 0 || RESERVED_WORDS.has(unwrapped[0])) return -1;
+
+  const offset = first + values.length - unwrapped.length;
+  if (!argv) return offset;
+
+  if (unwrapped.length < argv.length) return -1;
+  const matches = argv.every((pattern, i) => (
+    wildcardToRegex(pattern).test(i === 0 ? commandBasename(unwrapped[0]) : unwrapped[i])
+  ));
+  return matches ? offset + argv.length - 1 : -1;
+}
+
+/**
+ * Rewrite a shell command. `argv` is the rule's match.argv: only the
+ * simple commands it matches are rewritten, with flags added after its
+ * words. Without it, only the first command of the script is.
+ */
+export function rewriteCommand(command: string, rewrite: CommandRewrite, argv?: string[]): CommandRewriteResult {
+  const edits: Edit[] = [];
+  const removed = new Set<string>();
+  const added = new Set<string>();
+
+  for (const words of splitCommands(command)) {
+    const index = commandNameIndex(words, argv);
+    if (index === -1) continue;
+
+    const clusters = !SINGLE_DASH_COMMANDS.has(commandName(words));
+    for (const word of words.slice(index + 1)) {
+      const removal = removeFlags(command, word, rewrite.removeFlags, clusters);
+      if (!removal) continue;
+      edits.push(removal.edit);
+      removal.removed.forEach((flag) => removed.add(flag));
+    }
+
+    const missing = rewrite.addFlags.filter((flag) => !words.some((word) => word.value === flag));
+    if (missing.length > 0) {
+      edits.push({ start: words[index].end, end: words[index].end, text: ` ${missing.join(' ')}` });
+      missing.forEach((flag) => added.add(flag));
+    }
+
+    if (!argv) break;
+  }
+
+  const inner = applyEdits(command, edits);
+  const changes = [
+    ...[...removed].map((flag) => `removed "${flag}"`),
+    ...[...added].map((flag) => `added "${flag}"`),
+  ];
+
+  if (!rewrite.prefix) return { command: inner, inner, changes };
+
+  changes.push(`sandboxed with "${rewrite.prefix}"`);
+  return { command: `${rewrite.prefix} sh -c ${shellQuote(inner)}`, inner, changes };
+}
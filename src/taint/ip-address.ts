@@ -0,0 +1,166 @@
+/**
+ * IP Address Utilities
+ *
+ * Parsing and CIDR matching for IPv4 and IPv6 addresses, plus
+ * classification of loopback, link-local and private-network hosts.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface IpAddress {
+  family: 4 | 6;
+  /** Address as an unsigned integer (32 or 128 bits) */
+  value: bigint;
+}
+
+export interface CidrRange {
+  family: 4 | 6;
+  /** Network address with host bits cleared */
+  network: bigint;
+  /** Prefix length */
+  bits: number;
+}
+
+export type AddressScope = 'loopback' | 'link-local' | 'private' | 'public';
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+function parseIPv4(text: string): bigint | null {
+  const parts = text.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = (value << 8n) | BigInt(octet);
+  }
+  return value;
+}
+
+function parseIPv6(text: string): bigint | null {
+  let address = text;
+
+  // Embedded IPv4 tail (::ffff:1.2.3.4)
+  const lastColon = address.lastIndexOf(':');
+  const tail = address.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const v4 = parseIPv4(tail);
+    if (v4 === null) return null;
+    address = `${address.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address (IPv6 may be in URL brackets).
+ * IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are returned as IPv4.
+ */
+export function parseIpAddress(text: string): IpAddress | null {
+  const host = text.replace(/^\[|\]$/g, '');
+
+  const v4 = parseIPv4(host);
+  if (v4 !== null) return { family: 4, value: v4 };
+
+  if (!host.includes(':')) return null;
+  const v6 = parseIPv6(host.replace(/%.*$/, ''));
+  if (v6 === null) return null;
+
+  if (v6 >> 32n === 0xffffn) return { family: 4, value: v6 & 0xffffffffn };
+  return { family: 6, value: v6 };
+}
+
+/**
+ * Parse a CIDR range ("10.0.0.0/8", "fd00::/8"); a bare address is a /32 or /128.
+ */
+export function parseCidr(text: string): CidrRange | null {
+  const [addressText, bitsText, extra] = text.trim().split('/');
+  if (extra !== undefined) return null;
+
+  const address = parseIpAddress(addressText);
+  if (!address) return null;
+
+  const width = address.family === 4 ? 32 : 128;
+  const bits = bitsText === undefined ? width : Number(bitsText);
+  if (!Number.isInteger(bits) || bits < 0 || bits > width || (bitsText !== undefined && !/^\d+$/.test(bitsText))) {
+    return null;
+  }
+
+  return { family: address.family, network: address.value & prefixMask(bits, width), bits };
+}
+
+function prefixMask(bits: number, width: number): bigint {
+  const all = (1n << BigInt(width)) - 1n;
+  return bits === 0 ? 0n : all ^ ((1n << BigInt(width - bits)) - 1n);
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+/**
+ * Check if an address falls inside a CIDR range.
+ */
+export function isInCidr(address: IpAddress, range: CidrRange): boolean {
+  if (address.family !== range.family) return false;
+  const width = address.family === 4 ? 32 : 128;
+  return (address.value & prefixMask(range.bits, width)) === range.network;
+}
+
+const LOOPBACK_RANGES = ['127.0.0.0/8', '::1/128'].map((r) => parseCidr(r) as CidrRange);
+
+/** Link-local ranges, where cloud instance metadata services live */
+const LINK_LOCAL_RANGES = [
+  '169.254.0.0/16',
+  'fe80::/10',
+  '100.100.100.200/32', // Alibaba Cloud metadata
+  'fd00:ec2::254/128',  // AWS metadata over IPv6
+].map((r) => parseCidr(r) as CidrRange);
+
+const METADATA_HOSTNAMES = new Set(['metadata.google.internal', 'metadata.goog']);
+
+const PRIVATE_RANGES = [
+  '10.0.0.0/8',
+  '172.16.0.0/12',
+  '192.168.0.0/16',
+  '100.64.0.0/10',  // Carrier-grade NAT
+  'fc00::/7',       // Unique local
+].map((r) => parseCidr(r) as CidrRange);
+
+/**
+ * Classify a hostname as loopback, link-local, private-network or public.
+ * "localhost" and "*.localhost" are loopback and well-known metadata
+ * service names are link-local; other names are public.
+ */
+export function classifyHost(hostname: string): AddressScope {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost')) return 'loopback';
+  if (METADATA_HOSTNAMES.has(host)) return 'link-local';
+
+  const address = parseIpAddress(host);
+  if (!address) return 'public';
+  if (LOOPBACK_RANGES.some((range) => isInCidr(address, range))) return 'loopback';
+  if (LINK_LOCAL_RANGES.some((range) => isInCidr(address, range))) return 'link-local';
+  if (PRIVATE_RANGES.some((range) => isInCidr(address, range))) return 'private';
+  return 'public';
+}
@@ -0,0 +1,74 @@
+/**
+ * Tests for Lookalike Domain Detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { confusableSkeleton, createLookalikeDetector, isMixedScript, toUnicodeHostname } from './lookalike.js';
+
+// "github.com" with a Cyrillic small i (U+0456)
+const CYRILLIC_GITHUB = 'g\u0456thub.com';
+
+describe('toUnicodeHostname', () => {
+  it('should decode punycode labels', () => {
+    expect(toUnicodeHostname(new URL(`https://${CYRILLIC_GITHUB}`).hostname)).toBe(CYRILLIC_GITHUB);
+  });
+
+  it('should leave ASCII hostnames unchanged', () => {
+    expect(toUnicodeHostname('Docs.GitHub.com')).toBe('docs.github.com');
+  });
+});
+
+describe('confusableSkeleton', () => {
+  it('should fold lookalike characters', () => {
+    expect(confusableSkeleton(CYRILLIC_GITHUB)).toBe(confusableSkeleton('github.com'));
+    expect(confusableSkeleton('g1thub.com')).toBe(confusableSkeleton('github.com'));
+    expect(confusableSkeleton('rnozilla.org')).toBe(confusableSkeleton('mozilla.org'));
+  });
+
+  it('should strip diacritics and fullwidth forms', () => {
+    expect(confusableSkeleton('g\u00EDthub.com')).toBe(confusableSkeleton('github.com'));
+    expect(confusableSkeleton('\uFF47ithub.com')).toBe(confusableSkeleton('github.com'));
+  });
+});
+
+describe('isMixedScript', () => {
+  it('should detect labels mixing scripts', () => {
+    expect(isMixedScript('g\u0456thub')).toBe(true);
+    expect(isMixedScript('github')).toBe(false);
+    expect(isMixedScript('\u043F\u0440\u0438\u043C\u0435\u0440')).toBe(false);
+  });
+});
+
+describe('createLookalikeDetector', () => {
+  const detector = createLookalikeDetector(['github.com', 'npmjs.com']);
+
+  it('should ignore trusted domains and their subdomains', () => {
+    expect(detector.detect('github.com')).toBe(null);
+    expect(detector.detect('api.github.com')).toBe(null);
+    expect(detector.detect('example.com')).toBe(null);
+  });
+
+  it('should flag mixed-script homographs', () => {
+    const punycode = new URL(`https://${CYRILLIC_GITHUB}`).hostname;
+    expect(detector.detect(punycode)).toEqual({
+      kind: 'mixed-script',
+      displayDomain: CYRILLIC_GITHUB,
+      target: 'github.com',
+    });
+  });
+
+  it('should flag ASCII confusables', () => {
+    expect(detector.detect('g1thub.com')).toMatchObject({ kind: 'confusable', target: 'github.com' });
+    expect(detector.detect('login.npmjs.corn')).toMatchObject({ kind: 'confusable', target: 'npmjs.com' });
+    expect(detector.detect('www.rnpmjs.com')).toBe(null);
+  });
+
+  it('should flag trusted domains embedded in another domain', () => {
+    expect(detector.detect('github.com.evil.xyz')).toMatchObject({ kind: 'embedded', target: 'github.com' });
+    expect(detector.detect('login.npmjs.com.evil.xyz')).toMatchObject({ kind: 'embedded', target: 'npmjs.com' });
+  });
+
+  it('should flag mixed-script labels without a trusted target', () => {
+    expect(detector.detect('p\u0430ypal.com')).toEqual({ kind: 'mixed-script', displayDomain: 'p\u0430ypal.com' });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Lookalike Domain Detection
+ *
+ * Catches domains crafted to pass for a trusted one:
+ *
+ *   - mixed-script: a label mixing Latin with Cyrillic/Greek/... ("github.com"
+ *                   spelled with a Cyrillic "i")
+ *   - confusable:   same "skeleton" as a trusted domain once lookalike characters
+ *                   are folded ("g1thub.com", "xn--gthub-..."), but not the domain
+ *   - embedded:     a trusted domain used as a prefix ("github.com.evil.xyz")
+ */
+
+import { domainToUnicode } from 'node:url';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type LookalikeKind = 'mixed-script' | 'confusable' | 'embedded';
+
+export interface LookalikeMatch {
+  kind: LookalikeKind;
+  /** Unicode form of the checked domain */
+  displayDomain: string;
+  /** The trusted domain it imitates (absent for mixed-script without a target) */
+  target?: string;
+}
+
+export interface LookalikeDetector {
+  /** Check whether a domain imitates a trusted domain */
+  detect(domain: string): LookalikeMatch | null;
+}
+
+// =============================================================================
+// SKELETONS
+// =============================================================================
+
+// Characters commonly used to imitate ASCII letters (subset of Unicode confusables)
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  '\u0430': 'a', '\u0432': 'b', '\u0435': 'e', '\u0451': 'e', '\u04BB': 'h', '\u0456': 'l', '\u0457': 'l', '\u0458': 'j',
+  '\u043A': 'k', '\u04CF': 'l', '\u043E': 'o', '\u0440': 'p', '\u051B': 'q', '\u0441': 'c', '\u0455': 's', '\u0443': 'y',
+  '\u051D': 'w', '\u0445': 'x', '\u04AF': 'y', '\u0501': 'd', '\u043F': 'n', '\u043C': 'm', '\u0442': 't',
+  // Greek
+  '\u03B1': 'a', '\u03B2': 'b', '\u03B5': 'e', '\u03B7': 'n', '\u03B9': 'l', '\u03BA': 'k', '\u03BD': 'v', '\u03BF': 'o',
+  '\u03C1': 'p', '\u03C4': 't', '\u03C5': 'u', '\u03C7': 'x', '\u03F2': 'c', '\u03F3': 'j',
+  // Armenian
+  '\u0585': 'o', '\u057D': 'u', '\u0570': 'h', '\u0578': 'n', '\u0566': 'q', '\u0581': 'g',
+  // Latin lookalikes and digits
+  '\u0131': 'l', '\u0251': 'a', '\u0261': 'g', '\u2113': 'l', 'i': 'l', '1': 'l', '|': 'l', '0': 'o',
+};
+
+const MULTI_CHAR_CONFUSABLES: Array<[RegExp, string]> = [
+  [/rn/g, 'm'],
+  [/vv/g, 'w'],
+  [/cl/g, 'd'],
+];
+
+/**
+ * Decode a punycode (xn--) hostname to Unicode; returns the input if it is not valid.
+ */
+export function toUnicodeHostname(hostname: string): string {
+  const decoded = domainToUnicode(hostname.toLowerCase());
+  return decoded.length > 0 ? decoded : hostname.toLowerCase();
+}
+
+/**
+ * Fold a domain to a skeleton where lookalike characters compare equal.
+ */
+export function confusableSkeleton(domain: string): string {
+  let skeleton = '';
+  // NFKC folds fullwidth/compatibility forms; NFD then splits off diacritics
+  for (const char of toUnicodeHostname(domain).normalize('NFKC').normalize('NFD').toLowerCase()) {
+    if (/\p{M}/u.test(char)) continue;
+    skeleton += CONFUSABLES[char] ?? char;
+  }
+  for (const [pattern, replacement] of MULTI_CHAR_CONFUSABLES) {
+    skeleton = skeleton.replace(pattern, replacement);
+  }
+  return skeleton;
+}
+
+const SCRIPTS: Array<[string, RegExp]> = [
+  ['Latin', /\p{Script=Latin}/u],
+  ['Cyrillic', /\p{Script=Cyrillic}/u],
+  ['Greek', /\p{Script=Greek}/u],
+  ['Armenian', /\p{Script=Armenian}/u],
+  ['Georgian', /\p{Script=Georgian}/u],
+  ['Cherokee', /\p{Script=Cherokee}/u],
+];
+
+/**
+ * Check whether a single label mixes scripts that are used to imitate each other.
+ */
+export function isMixedScript(label: string): boolean {
+  const found = new Set<string>();
+  for (const char of label) {
+    for (const [script, regex] of SCRIPTS) {
+      if (regex.test(char)) found.add(script);
+    }
+  }
+  return found.size > 1;
+}
+
+// =============================================================================
+// LOOKALIKE DETECTOR
+// =============================================================================
+
+/**
+ * Create a detector for lookalikes of the given trusted domains.
+ */
+export function createLookalikeDetector(trustedDomains: string[]): LookalikeDetector {
+  const targets = [...new Set(trustedDomains.map((domain) => toUnicodeHostname(domain)))]
+    .filter((domain) => domain.includes('.'))
+    .map((domain) => ({ domain, skeleton: confusableSkeleton(domain) }));
+
+  function isSameOrSubdomain(domain: string, target: string): boolean {
+    return domain === target || domain.endsWith(`.${target}`);
+  }
+
+  function detect(domain: string): LookalikeMatch | null {
+    const displayDomain = toUnicodeHostname(domain).replace(/\.$/, '');
+    const skeleton = confusableSkeleton(displayDomain);
+
+    for (const target of targets) {
+      if (isSameOrSubdomain(displayDomain, target.domain)) continue;
+
+      if (skeleton === target.skeleton || skeleton.endsWith(`.${target.skeleton}`)) {
+        const kind = displayDomain.split('.').some(isMixedScript) ? 'mixed-script' : 'confusable';
+        return { kind, displayDomain, target: target.domain };
+      }
+
+      if (skeleton.startsWith(`${target.skeleton}.`) || skeleton.includes(`.${target.skeleton}.`)) {
+        return { kind: 'embedded', displayDomain, target: target.domain };
+      }
+    }
+
+    if (displayDomain.split('.').some(isMixedScript)) {
+      return { kind: 'mixed-script', displayDomain };
+    }
+
+    return null;
+  }
+
+  return { detect };
+}
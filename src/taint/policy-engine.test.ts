@@ -0,0 +1,146 @@
+/**
+ * Tests for Policy Engine
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createPolicyEngine, parsePolicyFile, wildcardToRegex, type PolicyInput } from './policy-engine.js';
+import { PolicyRuleSchema } from '../config/schema.js';
+
+function rule(raw: Record<string, unknown>) {
+  return PolicyRuleSchema.parse(raw);
+}
+
+function input(overrides: Partial<PolicyInput> = {}): PolicyInput {
+  return {
+    toolName: 'Bash',
+    tier: 'permissive',
+    taintLevel: 100,
+    urlClasses: [],
+    ...overrides,
+  };
+}
+
+describe('wildcardToRegex', () => {
+  it('should match * and ? case-insensitively', () => {
+    expect(wildcardToRegex('browser_*').test('Browser_Navigate')).toBe(true);
+    expect(wildcardToRegex('ci-?').test('ci-1')).toBe(true);
+    expect(wildcardToRegex('ci-?').test('ci-12')).toBe(false);
+    expect(wildcardToRegex('a.b').test('axb')).toBe(false);
+  });
+});
+
+describe('parsePolicyFile', () => {
+  it('should accept a list or an object with rules', () => {
+    expect(parsePolicyFile('- { name: a, action: block }')[0].name).toBe('a');
+    expect(parsePolicyFile('rules:\n  - { name: b, action: warn }')[0].action).toBe('warn');
+  });
+
+  it('should reject invalid rules', () => {
+    expect(() => parsePolicyFile('- { name: a, action: explode }')).toThrow();
+  });
+});
+
+describe('createPolicyEngine', () => {
+  it('should return no decision without rules', () => {
+    const engine = createPolicyEngine({ rules: [], files: [] });
+    expect(engine.evaluate(input())).toEqual({ warnings: [] });
+  });
+
+  it('should let the first deciding rule win', () => {
+    const engine = createPolicyEngine({
+      rules: [
+        rule({ name: 'no-push', match: { argv: ['git', 'push'] }, action: 'block' }),
+        rule({ name: 'allow-git', match: { argv: ['git'] }, action: 'allow' }),
+      ],
+      files: [],
+    });
+
+    expect(engine.evaluate(input({ command: 'sudo git push origin main' })).rule?.name).toBe('no-push');
+    expect(engine.evaluate(input({ command: 'git status' })).rule?.name).toBe('allow-git');
+    expect(engine.evaluate(input({ command: 'ls' })).rule).toBeUndefined();
+  });
+
+  it('should collect warn rules and keep evaluating', () => {
+    const engine = createPolicyEngine({
+      rules: [
+        rule({ name: 'audit', match: { tools: ['bash'] }, action: 'warn' }),
+        rule({ name: 'deny-low', match: { maxTaint: 40 }, action: 'block' }),
+      ],
+      files: [],
+    });
+
+    const result = engine.evaluate(input({ taintLevel: 30 }));
+    expect(result.warnings.map((w) => w.name)).toEqual(['audit']);
+    expect(result.rule?.name).toBe('deny-low');
+    expect(engine.evaluate(input({ taintLevel: 41 })).rule).toBeUndefined();
+  });
+
+  it('should require every condition to hold', () => {
+    const engine = createPolicyEngine({
+      rules: [
+        rule({
+          name: 'ci-fetch',
+          match: { tools: ['ci_*'], tiers: ['cautious'], users: ['bot-*'], command: '^curl\\b' },
+          action: 'block',
+        }),
+      ],
+      files: [],
+    });
+
+    const matching = input({ toolName: 'ci_run', tier: 'cautious', userId: 'bot-7', command: 'curl x' });
+    expect(engine.evaluate(matching).rule?.name).toBe('ci-fetch');
+    expect(engine.evaluate({ ...matching, tier: 'permissive' }).rule).toBeUndefined();
+    expect(engine.evaluate({ ...matching, userId: undefined }).rule).toBeUndefined();
+    expect(engine.evaluate({ ...matching, command: 'wget x' }).rule).toBeUndefined();
+  });
+
+  it('should match URL classes and sessions', () => {
+    const engine = createPolicyEngine({
+      rules: [rule({ name: 'lookalikes', match: { urlClasses: ['lookalike', 'malicious'], sessions: ['agent-*'] }, action: 'block' })],
+      files: [],
+    });
+
+    expect(engine.evaluate(input({ sessionId: 'agent-1', urlClasses: ['trusted', 'lookalike'] })).rule?.name).toBe('lookalikes');
+    expect(engine.evaluate(input({ sessionId: 'agent-1', urlClasses: ['untrusted'] })).rule).toBeUndefined();
+    expect(engine.evaluate(input({ sessionId: 'human', urlClasses: ['malicious'] })).rule).toBeUndefined();
+  });
+
+  it('should never match a rule with an invalid command regex', () => {
+    const engine = createPolicyEngine({
+      rules: [rule({ name: 'broken', match: { command: '(' }, action: 'block' })],
+      files: [],
+    });
+    expect(engine.evaluate(input({ command: '(' })).rule).toBeUndefined();
+  });
+
+  describe('policy files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'clawtaint-policy-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should append file rules after the configured rules', () => {
+      const file = join(dir, 'policy.yaml');
+      writeFileSync(file, 'rules:\n  - name: from-file\n    action: block\n', 'utf-8');
+
+      const engine = createPolicyEngine({ rules: [rule({ name: 'inline', action: 'warn' })], files: [file] });
+      expect(engine.rules().map((r) => r.name)).toEqual(['inline', 'from-file']);
+    });
+
+    it('should skip missing and invalid files', () => {
+      const invalid = join(dir, 'invalid.yaml');
+      writeFileSync(invalid, '- { action: block }\n', 'utf-8');
+
+      const engine = createPolicyEngine({ rules: [], files: [join(dir, 'missing.yaml'), invalid] });
+      expect(engine.rules()).toEqual([]);
+    });
+  });
+});
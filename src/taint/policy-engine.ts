@@ -0,0 +1,191 @@
+/**
+ * Policy Engine
+ *
+ * Ordered, declarative rules for tool calls. Each rule matches on the tool,
+ * the session's tier and taint level, the session/user, the shell command
+ * (regex or parsed argv) and the classes of the URLs the call accesses, and
+ * yields an action:
+ *
+ *   allow    → skip the tier restrictions (always-blocked, blocked URLs and
+ *              data-flow checks still apply)
+ *   block    → block the call
+ *   warn     → log, and keep evaluating
+ *   rewrite  → merge the rule's params into the tool input and apply its
+ *              command rewrite (see command-rewriter.ts)
+ *
+ * The first allow, block or rewrite rule that matches decides.
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { PolicyRuleSchema, type PolicyConfig, type PolicyRule } from '../config/schema.js';
+import type { Logger } from '../utils/logger.js';
+import { analyzeCommand } from './command-normalizer.js';
+import { commandBasename, unwrapCommand } from './shell-parser.js';
+import type { UrlClassification } from './url-trust.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PolicyInput {
+  toolName: string;
+  tier: string;
+  taintLevel: number;
+  sessionId?: string;
+  userId?: string;
+  /** Shell command the call runs (shell tools only) */
+  command?: string | null;
+  /** Classifications of the URLs the call accesses */
+  urlClasses: UrlClassification[];
+}
+
+export interface PolicyEvaluation {
+  /** The allow, block or rewrite rule that decided, if any */
+  rule?: PolicyRule;
+  /** Warn rules that matched before the decision */
+  warnings: PolicyRule[];
+}
+
+export interface PolicyEngine {
+  /** Evaluate the rules against a tool call */
+  evaluate(input: PolicyInput): PolicyEvaluation;
+  /** Loaded rules, in evaluation order */
+  rules(): PolicyRule[];
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+/**
+ * Convert a wildcard pattern to a case-insensitive RegExp: "*" matches any
+ * characters, "?" a single one.
+ */
+export function wildcardToRegex(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function matchesAny(value: string | undefined, patterns: string[]): boolean {
+  return value !== undefined && patterns.some((pattern) => wildcardToRegex(pattern).test(value));
+}
+
+/**
+ * Check whether any command in a script starts with the given words.
+ * The command name is compared without its directory, after unwrapping
+ * sudo, env, timeout, …
+ */
+function matchesArgv(command: string, words: string[]): boolean {
+  const patterns = words.map(wildcardToRegex);
+
+  return analyzeCommand(command).commands.some(({ source }) => {
+    const argv = unwrapCommand(source.argv);
+    if (argv.length < patterns.length) return false;
+    return patterns.every((pattern, i) => pattern.test(i === 0 ? commandBasename(argv[0]) : argv[i]));
+  });
+}
+
+// =============================================================================
+// RULE LOADING
+// =============================================================================
+
+/**
+ * Parse a policy file: a YAML list of rules, or an object with a rules list.
+ */
+export function parsePolicyFile(content: string): PolicyRule[] {
+  const parsed: unknown = parseYaml(content);
+  const list = Array.isArray(parsed) ? parsed : (parsed as { rules?: unknown } | null)?.rules ?? [];
+  if (!Array.isArray(list)) throw new Error('rules must be a list');
+  return list.map((rule) => PolicyRuleSchema.parse(rule));
+}
+
+// =============================================================================
+// POLICY ENGINE
+// =============================================================================
+
+/**
+ * Create a policy engine from the configured rules and policy files.
+ * Unreadable or invalid policy files are logged and skipped.
+ */
+export function createPolicyEngine(
+  config: PolicyConfig,
+  logger?: Logger
+): PolicyEngine {
+  const log = logger;
+  const loaded = [...config.rules];
+
+  for (const file of config.files) {
+    const filePath = resolve(file);
+    try {
+      loaded.push(...parsePolicyFile(readFileSync(filePath, 'utf-8')));
+      log?.info(`Loaded policy file ${filePath}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log?.error(`Failed to load policy file ${filePath}: ${errorMessage}`);
+    }
+  }
+
+  // Compile command regexes once; a rule with an invalid regex never matches
+  const commandRegexes = new Map<PolicyRule, RegExp | null>();
+  for (const rule of loaded) {
+    if (rule.match.command === undefined) continue;
+    try {
+      commandRegexes.set(rule, new RegExp(rule.match.command));
+    } catch {
+      log?.error(`Invalid command regex in policy rule "${rule.name}", rule ignored: ${rule.match.command}`);
+      commandRegexes.set(rule, null);
+    }
+  }
+
+  function matches(rule: PolicyRule, input: PolicyInput): boolean {
+    const { match } = rule;
+
+    if (match.tools && !matchesAny(input.toolName, match.tools)) return false;
+    if (match.tiers && !match.tiers.includes(input.tier)) return false;
+    if (match.minTaint !== undefined && input.taintLevel < match.minTaint) return false;
+    if (match.maxTaint !== undefined && input.taintLevel > match.maxTaint) return false;
+    if (match.sessions && !matchesAny(input.sessionId, match.sessions)) return false;
+    if (match.users && !matchesAny(input.userId, match.users)) return false;
+    if (match.urlClasses && !input.urlClasses.some((cls) => match.urlClasses?.includes(cls))) return false;
+
+    if (match.command !== undefined) {
+      const regex = commandRegexes.get(rule);
+      if (!regex || !input.command || !regex.test(input.command)) return false;
+    }
+    if (match.argv && (!input.command || !matchesArgv(input.command, match.argv))) return false;
+
+    return true;
+  }
+
+  function evaluate(input: PolicyInput): PolicyEvaluation {
+    const warnings: PolicyRule[] = [];
+
+    for (const rule of loaded) {
+      if (!matches(rule, input)) continue;
+
+      if (rule.action === 'warn') {
+        warnings.push(rule);
+        continue;
+      }
+
+      log?.debug(`Policy rule "${rule.name}" matched: action=${rule.action}, tool=${input.toolName}`);
+      return { rule, warnings };
+    }
+
+    return { warnings };
+  }
+
+  return {
+    evaluate,
+    rules: () => [...loaded],
+  };
+}
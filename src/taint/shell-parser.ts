@@ -0,0 +1,679 @@
+/**
+ * Shell Command Parser
+ *
+ * A POSIX-ish tokenizer that splits a shell command string into the
+ * individual simple commands it would run: pipeline stages, `;`/`&&`/`||`
+ * chains, subshells, `$(...)` and backtick substitutions, process
+ * substitutions, heredoc bodies fed to a shell, and `sh -c` / `eval` scripts.
+ *
+ * This is not a full shell grammar — it is deliberately forgiving so that
+ * malformed input still yields every command word it can find.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ShellRedirection {
+  /** Redirection operator (e.g. ">", ">>", "<", "<<", "<<<", "&>") */
+  op: string;
+  /** Explicit file descriptor (e.g. 2 in "2>") */
+  fd?: number;
+  /** Redirection target (file, fd or heredoc delimiter) */
+  target: string;
+  /** Heredoc body (for "<<" and "<<-") */
+  body?: string;
+}
+
+export interface ShellCommand {
+  /** Command words after quote removal */
+  argv: string[];
+  /** Leading variable assignments (e.g. "FOO=bar") */
+  assignments: string[];
+  /** Redirections attached to the command */
+  redirections: ShellRedirection[];
+  /** Source text of the command */
+  text: string;
+  /** Whether the command was found inside a substitution, subshell or nested script */
+  nested: boolean;
+}
+
+export interface ParsedShellScript {
+  /** Every simple command, in source order */
+  commands: ShellCommand[];
+  /** Commands grouped by pipeline (single commands form a one-stage pipeline) */
+  pipelines: ShellCommand[][];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Nested scripts deeper than this are not parsed further */
+const MAX_DEPTH = 8;
+
+/** Shells whose `-c` argument, here-string or heredoc body is itself a script */
+const SHELL_INTERPRETERS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'ash', 'fish', 'busybox']);
+
+/** Reserved words that may precede a command without being the command */
+const RESERVED_PREFIXES = new Set(['if', 'then', 'else', 'elif', 'do', 'while', 'until', '!', '{', '(']);
+
+/** Reserved words that close a compound command */
+const RESERVED_TERMINATORS = new Set(['fi', 'done', 'esac', '}']);
+
+/** Compound commands whose words are not executed directly */
+const NON_EXECUTING_KEYWORDS = new Set(['for', 'select', 'case', 'in']);
+
+/** Wrapper commands that run their arguments as a command */
+const WRAPPER_OPTIONS_WITH_ARGS: Record<string, Set<string>> = {
+  sudo: new Set(['-u', '-g', '-C', '-D', '-h', '-p', '-r', '-t', '-U', '-T']),
+  doas: new Set(['-u', '-C']),
+  env: new Set(['-u', '-C', '--unset', '--chdir']),
+  nice: new Set(['-n', '--adjustment']),
+  ionice: new Set(['-c', '-n', '-p']),
+  timeout: new Set(['-s', '-k', '--signal', '--kill-after']),
+  xargs: new Set(['-I', '-n', '-P', '-L', '-s', '-d', '-E', '-a', '--arg-file', '--delimiter', '--max-args', '--max-procs']),
+  stdbuf: new Set(['-i', '-o', '-e']),
+  exec: new Set(['-a']),
+  time: new Set(['-f', '-o']),
+  nohup: new Set(),
+  setsid: new Set(),
+  builtin: new Set(),
+  command: new Set(),
+};
+
+const OPERATOR_CHARS = new Set([';', '&', '|', '<', '>', '(', ')', '\n']);
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Strip any leading directory from a command word ("/usr/bin/env" → "env").
+ */
+export function commandBasename(word: string): string {
+  const slash = word.lastIndexOf('/');
+  return slash >= 0 ? word.slice(slash + 1) : word;
+}
+
+/**
+ * Strip wrapper commands (sudo, env, nohup, timeout, xargs, …) to find
+ * the command that actually runs.
+ * e.g., ["sudo", "-u", "root", "env", "X=1", "rm", "-rf", "x"] → ["rm", "-rf", "x"]
+ */
+export function unwrapCommand(argv: string[]): string[] {
+  let current = argv;
+
+  for (let guard = 0; guard < MAX_DEPTH && current.length > 0; guard++) {
+    const wrapper = commandBasename(current[0]).toLowerCase();
+    const optionsWithArgs = WRAPPER_OPTIONS_WITH_ARGS[wrapper];
+    if (!optionsWithArgs) break;
+
+    // `command -v x` looks a command up instead of running it
+    if (wrapper === 'command' && current.some((arg) => arg === '-v' || arg === '-V')) break;
+
+    let i = 1;
+    while (i < current.length) {
+      const arg = current[i];
+      if (arg === '--') {
+        i++;
+        break;
+      }
+      if (arg.startsWith('-') && arg.length > 1) {
+        i += optionsWithArgs.has(arg) ? 2 : 1;
+        continue;
+      }
+      if (wrapper === 'env' && /^[A-Za-z_][A-Za-z0-9_]*=/.test(arg)) {
+        i++;
+        continue;
+      }
+      if (wrapper === 'timeout' && /^\d+(\.\d+)?[smhd]?$/.test(arg)) {
+        // Duration precedes the command
+        i++;
+      }
+      break;
+    }
+
+    const rest = current.slice(i);
+    if (rest.length === 0) break;
+    current = rest;
+  }
+
+  return current;
+}
+
+/**
+ * Find the script passed to a shell interpreter via `-c` (e.g. `bash -lc "…"`).
+ */
+function findInlineScript(argv: string[]): string | null {
+  if (!SHELL_INTERPRETERS.has(commandBasename(argv[0] ?? '').toLowerCase())) return null;
+
+  for (let i = 1; i < argv.length; i++) {
+    const arg = argv[i];
+    if (/^-[a-z]*c[a-z]*$/i.test(arg)) {
+      return argv[i + 1] ?? null;
+    }
+    if (!arg.startsWith('-')) break;
+  }
+  return null;
+}
+
+/**
+ * Decode the escapes of an ANSI-C quoted string ($'…').
+ */
+function decodeAnsiC(raw: string): string {
+  const simple: Record<string, string> = { n: '\n', t: '\t', r: '\r', a: '\x07', b: '\b', e: '\x1b', f: '\f', v: '\v' };
+  return raw.replace(
+    /\\(x[0-9a-fA-F]{1,2}|u[0-9a-fA-F]{1,4}|U[0-9a-fA-F]{1,8}|[0-7]{1,3}|.)/g,
+    (_match, seq: string) => {
+      if (/^[xuU]/.test(seq)) return String.fromCodePoint(parseInt(seq.slice(1), 16));
+      if (/^[0-7]+$/.test(seq)) return String.fromCharCode(parseInt(seq, 8));
+      return simple[seq] ?? seq;
+    }
+  );
+}
+
+/**
+ * Remove reserved words that wrap commands (if/then/do/…) from the front of argv.
+ * Returns null when the words are not a command at all (e.g. `for x in …`).
+ */
+function stripReservedWords(argv: string[]): string[] | null {
+  let words = argv;
+
+  while (words.length > 0) {
+    const first = words[0];
+    if (RESERVED_PREFIXES.has(first)) {
+      words = words.slice(1);
+    } else if (first === 'function') {
+      words = words.slice(2);
+    } else {
+      break;
+    }
+  }
+
+  if (words.length === 0) return words;
+  if (NON_EXECUTING_KEYWORDS.has(words[0])) return null;
+  if (words.length === 1 && RESERVED_TERMINATORS.has(words[0])) return [];
+  return words;
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+interface PendingHeredoc {
+  redirection: ShellRedirection;
+  command: ShellCommand | null;
+  delimiter: string;
+  stripTabs: boolean;
+  expand: boolean;
+}
+
+interface CommandBuilder {
+  words: string[];
+  assignments: string[];
+  redirections: ShellRedirection[];
+  start: number;
+}
+
+/**
+ * Parse a shell command string into its individual simple commands.
+ */
+export function parseShellCommand(source: string): ParsedShellScript {
+  const result: ParsedShellScript = { commands: [], pipelines: [] };
+  parseInto(source, result, 0);
+  return result;
+}
+
+function parseInto(source: string, result: ParsedShellScript, depth: number): void {
+  let pos = 0;
+  const pendingHeredocs: PendingHeredoc[] = [];
+
+  function parseNested(script: string): void {
+    if (depth + 1 > MAX_DEPTH) return;
+    parseInto(script, result, depth + 1);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Word reading
+  // ---------------------------------------------------------------------------
+
+  /** Read a `$(...)` or `<(...)` body starting just after the opening paren. */
+  function readParenBody(): string {
+    const start = pos;
+    let level = 1;
+    while (pos < source.length) {
+      const ch = source[pos];
+      if (ch === '\\') {
+        pos += 2;
+        continue;
+      }
+      if (ch === "'") {
+        const end = source.indexOf("'", pos + 1);
+        pos = end < 0 ? source.length : end + 1;
+        continue;
+      }
+      if (ch === '"') {
+        pos++;
+        readDoubleQuoted(true);
+        continue;
+      }
+      if (ch === '(') level++;
+      if (ch === ')') {
+        level--;
+        if (level === 0) {
+          const body = source.slice(start, pos);
+          pos++;
+          return body;
+        }
+      }
+      pos++;
+    }
+    return source.slice(start);
+  }
+
+  /** Read a backtick substitution body starting just after the opening backtick. */
+  function readBacktickBody(): string {
+    let body = '';
+    while (pos < source.length && source[pos] !== '`') {
+      if (source[pos] === '\\' && pos + 1 < source.length) {
+        body += source[pos + 1];
+        pos += 2;
+        continue;
+      }
+      body += source[pos++];
+    }
+    pos++; // closing backtick
+    return body;
+  }
+
+  /** Read a `$...` expansion, parsing any command substitution it contains. */
+  function readDollar(): string {
+    const start = pos;
+    pos++; // $
+
+    if (source.startsWith('((', pos)) {
+      // Arithmetic expansion: not a command
+      pos += 2;
+      readParenBody();
+      if (source[pos] === ')') pos++;
+      return source.slice(start, pos);
+    }
+    if (source[pos] === '(') {
+      pos++;
+      parseNested(readParenBody());
+      return source.slice(start, pos);
+    }
+    if (source[pos] === '{') {
+      const end = source.indexOf('}', pos);
+      pos = end < 0 ? source.length : end + 1;
+      return source.slice(start, pos);
+    }
+    if (source[pos] === "'") {
+      // ANSI-C quoting
+      pos++;
+      let raw = '';
+      while (pos < source.length && source[pos] !== "'") {
+        if (source[pos] === '\\' && pos + 1 < source.length) {
+          raw += source.slice(pos, pos + 2);
+          pos += 2;
+          continue;
+        }
+        raw += source[pos++];
+      }
+      pos++;
+      return decodeAnsiC(raw);
+    }
+    if (/[@*#?$!0-9-]/.test(source[pos] ?? '')) {
+      // Special parameter
+      pos++;
+    } else {
+      while (pos < source.length && /[A-Za-z0-9_]/.test(source[pos])) pos++;
+    }
+    return source.slice(start, pos);
+  }
+
+  /**
+   * Read double-quoted content starting just after the opening quote.
+   * With `untilQuote` false, reads to the end of input (heredoc bodies).
+   */
+  function readDoubleQuoted(untilQuote: boolean): string {
+    let value = '';
+    while (pos < source.length) {
+      const ch = source[pos];
+      if (untilQuote && ch === '"') {
+        pos++;
+        return value;
+      }
+      if (ch === '\\' && pos + 1 < source.length) {
+        const next = source[pos + 1];
+        value += '$`"\\\n'.includes(next) ? (next === '\n' ? '' : next) : `\\${next}`;
+        pos += 2;
+        continue;
+      }
+      if (ch === '$') {
+        value += readDollar();
+        continue;
+      }
+      if (ch === '`') {
+        const start = pos;
+        pos++;
+        parseNested(readBacktickBody());
+        value += source.slice(start, pos);
+        continue;
+      }
+      value += ch;
+      pos++;
+    }
+    return value;
+  }
+
+  /** Read a single shell word, removing quotes. */
+  function readWord(): string {
+    let value = '';
+    while (pos < source.length) {
+      const ch = source[pos];
+      if (/\s/.test(ch) || OPERATOR_CHARS.has(ch)) break;
+
+      if (ch === '\\') {
+        if (source[pos + 1] !== '\n') value += source[pos + 1] ?? '';
+        pos += 2;
+      } else if (ch === "'") {
+        const end = source.indexOf("'", pos + 1);
+        value += source.slice(pos + 1, end < 0 ? source.length : end);
+        pos = end < 0 ? source.length : end + 1;
+      } else if (ch === '"') {
+        pos++;
+        value += readDoubleQuoted(true);
+      } else if (ch === '$') {
+        value += readDollar();
+      } else if (ch === '`') {
+        const start = pos;
+        pos++;
+        parseNested(readBacktickBody());
+        value += source.slice(start, pos);
+      } else {
+        value += ch;
+        pos++;
+      }
+    }
+    return value;
+  }
+
+  function skipBlanks(): void {
+    while (pos < source.length) {
+      const ch = source[pos];
+      if (ch === ' ' || ch === '\t' || ch === '\r') {
+        pos++;
+      } else if (ch === '\\' && source[pos + 1] === '\n') {
+        pos += 2;
+      } else if (ch === '#') {
+        while (pos < source.length && source[pos] !== '\n') pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Heredocs
+  // ---------------------------------------------------------------------------
+
+  function readHeredocBodies(): void {
+    while (pendingHeredocs.length > 0) {
+      const heredoc = pendingHeredocs.shift() as PendingHeredoc;
+      const lines: string[] = [];
+
+      while (pos < source.length) {
+        let end = source.indexOf('\n', pos);
+        if (end < 0) end = source.length;
+        let line = source.slice(pos, end);
+        pos = Math.min(end + 1, source.length);
+        if (heredoc.stripTabs) line = line.replace(/^\t+/, '');
+        if (line === heredoc.delimiter) break;
+        lines.push(line);
+      }
+
+      const body = lines.join('\n');
+      heredoc.redirection.body = body;
+
+      if (heredoc.command && feedsShell(heredoc.command)) {
+        parseNested(body);
+      } else if (heredoc.expand) {
+        // Unquoted heredocs still run command substitutions
+        parseSubstitutionsOnly(body, result, depth + 1);
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Command assembly
+  // ---------------------------------------------------------------------------
+
+  let pipeline: ShellCommand[] = [];
+  let builder: CommandBuilder = newBuilder();
+
+  function newBuilder(): CommandBuilder {
+    return { words: [], assignments: [], redirections: [], start: pos };
+  }
+
+  function finishCommand(end: number): void {
+    const { words, assignments, redirections, start } = builder;
+    builder = newBuilder();
+
+    const argv = stripReservedWords(words);
+    if (argv === null) return;
+    if (argv.length === 0 && assignments.length === 0 && redirections.length === 0) return;
+
+    const command: ShellCommand = {
+      argv,
+      assignments,
+      redirections,
+      text: source.slice(start, end).trim(),
+      nested: depth > 0,
+    };
+    pipeline.push(command);
+    result.commands.push(command);
+
+    for (const redirection of redirections) {
+      const pending = pendingHeredocs.find((h) => h.redirection === redirection);
+      if (pending) pending.command = command;
+    }
+
+    // Scripts handed to a shell or eval are commands too
+    const effective = unwrapCommand(argv);
+    const inline = findInlineScript(effective);
+    if (inline !== null) {
+      parseNested(inline);
+    } else if (commandBasename(effective[0] ?? '') === 'eval' && effective.length > 1) {
+      parseNested(effective.slice(1).join(' '));
+    }
+    if (SHELL_INTERPRETERS.has(commandBasename(effective[0] ?? '').toLowerCase())) {
+      for (const redirection of redirections) {
+        if (redirection.op === '<<<') parseNested(redirection.target);
+      }
+    }
+  }
+
+  function finishPipeline(): void {
+    if (pipeline.length > 0) result.pipelines.push(pipeline);
+    pipeline = [];
+  }
+
+  /** Whether the command is a shell reading its script from stdin */
+  function feedsShell(command: ShellCommand): boolean {
+    const effective = unwrapCommand(command.argv);
+    return SHELL_INTERPRETERS.has(commandBasename(effective[0] ?? '').toLowerCase())
+      && findInlineScript(effective) === null;
+  }
+
+  function readRedirection(): boolean {
+    const match = /^(\d*)(&>>|&>|>>|>&|>\||<<<|<<-|<<|<&|<>|>|<)/.exec(source.slice(pos));
+    if (!match) return false;
+    // "<(" and ">(" are process substitutions, not redirections
+    if ((match[2] === '<' || match[2] === '>') && source[pos + match[0].length] === '(') return false;
+
+    pos += match[0].length;
+    skipBlanks();
+
+    const rawStart = pos;
+    const target = readWord();
+    const rawTarget = source.slice(rawStart, pos);
+    const redirection: ShellRedirection = { op: match[2], target };
+    if (match[1]) redirection.fd = Number(match[1]);
+    builder.redirections.push(redirection);
+
+    if (match[2] === '<<' || match[2] === '<<-') {
+      pendingHeredocs.push({
+        redirection,
+        command: null,
+        delimiter: target,
+        stripTabs: match[2] === '<<-',
+        expand: !/['"\\]/.test(rawTarget),
+      });
+    }
+    return true;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Main loop
+  // ---------------------------------------------------------------------------
+
+  while (pos < source.length) {
+    skipBlanks();
+    if (pos >= source.length) break;
+
+    const ch = source[pos];
+    const next = source[pos + 1];
+
+    if (ch === '\n') {
+      finishCommand(pos);
+      finishPipeline();
+      pos++;
+      readHeredocBodies();
+      builder = newBuilder();
+      continue;
+    }
+
+    if (ch === ';' || (ch === '&' && next !== '>') || (ch === '|' && next === '|')) {
+      finishCommand(pos);
+      finishPipeline();
+      pos += (next === ch && ch !== ';') || (ch === ';' && next === ';') ? 2 : 1;
+      builder = newBuilder();
+      continue;
+    }
+
+    if (ch === '|') {
+      finishCommand(pos);
+      pos += next === '&' ? 2 : 1;
+      builder = newBuilder();
+      continue;
+    }
+
+    if ((ch === '<' || ch === '>') && next === '(') {
+      // Process substitution
+      pos += 2;
+      parseNested(readParenBody());
+      builder.words.push(`${ch}(…)`);
+      continue;
+    }
+
+    if (ch === '(') {
+      pos++;
+      if (builder.words.length > 0) {
+        // Function definition: name() { … }
+        skipBlanks();
+        if (source[pos] === ')') pos++;
+        builder.words = [];
+        builder.start = pos;
+        continue;
+      }
+      if (source[pos] === '(') {
+        // Arithmetic command (( … )): not a command
+        pos++;
+        readParenBody();
+        if (source[pos] === ')') pos++;
+        continue;
+      }
+      // Subshell
+      finishCommand(pos);
+      finishPipeline();
+      parseNested(readParenBody());
+      builder = newBuilder();
+      continue;
+    }
+
+    if (ch === ')') {
+      // Stray closing paren (e.g. a case pattern) acts as a separator
+      finishCommand(pos);
+      finishPipeline();
+      pos++;
+      builder = newBuilder();
+      continue;
+    }
+
+    if (readRedirection()) continue;
+
+    if (builder.words.length === 0 && builder.redirections.length === 0) {
+      builder.start = pos;
+    }
+
+    const wordStart = pos;
+    const word = readWord();
+    if (pos === wordStart) {
+      // Unknown operator character: skip it to guarantee progress
+      pos++;
+      continue;
+    }
+
+    if (builder.words.length === 0 && /^[A-Za-z_][A-Za-z0-9_]*\+?=/.test(source.slice(wordStart, pos))) {
+      builder.assignments.push(word);
+    } else {
+      builder.words.push(word);
+    }
+  }
+
+  finishCommand(pos);
+  finishPipeline();
+  readHeredocBodies();
+}
+
+/**
+ * Parse only the command substitutions inside text that is otherwise data
+ * (e.g. the body of an unquoted heredoc).
+ */
+function parseSubstitutionsOnly(text: string, result: ParsedShellScript, depth: number): void {
+  if (depth > MAX_DEPTH) return;
+
+  let pos = 0;
+  while (pos < text.length) {
+    if (text[pos] === '\\') {
+      pos += 2;
+      continue;
+    }
+    if (text.startsWith('$((', pos)) {
+      pos += 3;
+      continue;
+    }
+    if (text.startsWith('$(', pos)) {
+      let level = 1;
+      const start = pos + 2;
+      pos = start;
+      while (pos < text.length && level > 0) {
+        if (text[pos] === '(') level++;
+        if (text[pos] === ')') level--;
+        pos++;
+      }
+      parseInto(text.slice(start, level === 0 ? pos - 1 : pos), result, depth);
+      continue;
+    }
+    if (text[pos] === '`') {
+      const end = text.indexOf('`', pos + 1);
+      const stop = end < 0 ? text.length : end;
+      parseInto(text.slice(pos + 1, stop), result, depth);
+      pos = stop + 1;
+      continue;
+    }
+    pos++;
+  }
+}
@@ -2,21 +2,57 @@
  * Shell Restriction Engine
  *
  * Determines whether a shell command is allowed based on the current
- * restriction tier. Tiers are progressively stricter:
+ * restriction tier. Tiers come from shellRestrictions.tiers; the defaults
+ * are progressively stricter:
  *
  *   permissive  → All commands allowed (except always-blocked)
  *   cautious    → Dangerous commands blocked
  *   restricted  → Only safe commands allowed
  *   lockdown    → All shell commands blocked
+ *
+ * Each tier denies the commands on its deny list, then either allows the
+ * rest (defaultAction: allow) or only the commands on its allow list
+ * (defaultAction: deny). Allowed commands are specs checked against the
+ * parsed argv: required words ("git log"), allowed subcommands and
+ * forbidden flags ("find" without -delete or -exec). A tier can also block
+ * network egress: uploads to, or any connection to, destinations the URL
+ * trust checker does not trust, or all of it. Tiers with blockSensitive
+ * block reads of sensitive paths (~/.ssh, .env), secret variables and environment dumps, even
+ * by otherwise safe commands, and can confine file writes (redirections,
+ * tee, cp/mv destinations, sed -i) to the workspace root or block them.
  */
 
-import type { ShellRestrictions, RestrictionTier } from '../config/schema.js';
+import { homedir } from 'node:os';
+import { resolve } from 'node:path';
+import type { ShellRestrictions, RestrictionTier, SafeCommand, SafeCommandSpec, Tier } from '../config/schema.js';
 import type { Logger } from '../utils/logger.js';
+import type { UrlTrustChecker } from './url-trust.js';
+import { analyzeEgress, type EgressFinding } from './egress.js';
+import {
+  createSensitiveAccessDetector,
+  expandHome,
+  resolvePathFrom,
+  trackWorkingDirectories,
+  type WorkingDirectories,
+} from './sensitive-access.js';
+import { findWriteTargets, type WriteTarget } from './write-targets.js';
+import { unwrapCommand, type ShellCommand } from './shell-parser.js';
+import { analyzeCommand, detectOpaqueExecution, findMatchingPattern, type CommandAnalysis } from './command-normalizer.js';
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
+interface ResolvedTier {
+  defaultAction: 'allow' | 'deny';
+  allow: SafeCommandSpec[];
+  deny: string[];
+  blockOpaque: boolean;
+  blockSensitive: boolean;
+  egress: Tier['egress'];
+  writes: Tier['writes'];
+}
+
 export interface ShellCheckResult {
   /** Whether the command is allowed */
   allowed: boolean;
@@ -26,11 +62,18 @@ export interface ShellCheckResult {
   tier: RestrictionTier;
   /** The matched pattern that caused blocking (if any) */
   matchedPattern?: string;
+  /** Built-in rule that decided: "always-blocked", "opaque-execution" or "tier:<name>" */
+  rule: string;
+}
+
+export interface ShellCheckOptions {
+  /** Apply the tier's rules (false = only always-blocked and opaque 'block') */
+  tierRules?: boolean;
 }
 
 export interface ShellRestrictionEngine {
   /** Check if a shell command is allowed under the given tier */
-  check(command: string, tier: RestrictionTier): ShellCheckResult;
+  check(command: string, tier: RestrictionTier, options?: ShellCheckOptions): ShellCheckResult;
   /** Check if a tool name is a shell tool */
   isShellTool(toolName: string): boolean;
 }
@@ -39,24 +82,87 @@ export interface ShellRestrictionEngine {
 // COMMAND MATCHING
 // =============================================================================
 
+/** Standard system directories that may prefix a safe command */
+const SYSTEM_BIN_DIR = /^\/(usr\/(local\/)?)?s?bin\//;
+
+/**
+ * Extract the base command name from a parsed command.
+ * e.g., "sudo /bin/ls -la /tmp" → "ls"
+ *
+ * Only standard system directories are stripped: "./ls" stays "./ls" so a
+ * local binary cannot pass for a safe command.
+ */
+function extractBaseCommand(command: ShellCommand): string {
+  const word = unwrapCommand(command.argv)[0] ?? '';
+  return word.replace(SYSTEM_BIN_DIR, '').toLowerCase();
+}
+
+/**
+ * Find the first forbidden flag among a command's arguments.
+ *   "-o"       → "-o", and clusters containing o ("-ro", "-ofile")
+ *   "--output" → "--output", "--output=x" and abbreviations ("--out")
+ *   "-delete"  → exactly "-delete" (single-dash long options, as in find)
+ * Arguments after "--" are not flags.
+ */
+function findForbiddenFlag(args: string[], forbiddenFlags: string[]): string | undefined {
+  for (const arg of args) {
+    if (arg === '--') return undefined;
+    if (!arg.startsWith('-') || arg === '-') continue;
+
+    const name = arg.split('=')[0];
+    const forbidden = forbiddenFlags.find((flag) => {
+      if (name === flag) return true;
+      if (flag.startsWith('--')) return name.startsWith('--') && name.length > 3 && flag.startsWith(name);
+      if (flag.length === 2) return !arg.startsWith('--') && /^-[A-Za-z]/.test(arg) && arg.includes(flag[1]);
+      return false;
+    });
+    if (forbidden) return forbidden;
+  }
+  return undefined;
+}
+
+/**
+ * Check a parsed command against a safe command spec.
+ * Returns 'safe', the forbidden flag it uses, or null if the spec does not apply.
+ */
+function checkSafeCommand(command: ShellCommand, spec: SafeCommandSpec): 'safe' | { flag: string } | null {
+  const argv = unwrapCommand(command.argv);
+  const words = spec.command.toLowerCase().split(/\s+/);
+
+  if (extractBaseCommand(command) !== words[0]) return null;
+  for (let i = 1; i < words.length; i++) {
+    if (argv[i]?.toLowerCase() !== words[i]) return null;
+  }
+
+  let args = argv.slice(words.length);
+  if (spec.subcommands) {
+    const subcommand = args[0]?.toLowerCase();
+    if (!subcommand || !spec.subcommands.some((allowed) => allowed.toLowerCase() === subcommand)) return null;
+    args = args.slice(1);
+  }
+
+  const flag = findForbiddenFlag(args, spec.forbiddenFlags);
+  return flag ? { flag } : 'safe';
+}
+
+function toSafeCommandSpec(entry: SafeCommand): SafeCommandSpec {
+  return typeof entry === 'string' ? { command: entry, forbiddenFlags: [] } : entry;
+}
+
 /**
- * Check if a command string contains a pattern (case-insensitive).
+ * Expand the "$dangerousCommands" reference in a tier's deny list.
  */
-function commandContains(command: string, pattern: string): boolean {
-  return command.toLowerCase().includes(pattern.toLowerCase());
+function expandDenyList(list: string[], config: ShellRestrictions): string[] {
+  return list.flatMap((entry) => (entry === '$dangerousCommands' ? config.dangerousCommands : [entry]));
 }
 
 /**
- * Extract the base command name from a command string.
- * e.g., "ls -la /tmp" → "ls"
+ * Expand the "$safeCommands" reference in a tier's allow list.
  */
-function extractBaseCommand(command: string): string {
-  const trimmed = command.trim();
-  // Handle command chains: take the first command
-  const firstCmd = trimmed.split(/[;&|]/)[0].trim();
-  // Extract the executable name
-  const parts = firstCmd.split(/\s+/);
-  return parts[0].toLowerCase();
+function expandAllowList(list: SafeCommand[], config: ShellRestrictions): SafeCommandSpec[] {
+  return list
+    .flatMap((entry) => (entry === '$safeCommands' ? config.safeCommands : [entry]))
+    .map(toSafeCommandSpec);
 }
 
 // =============================================================================
@@ -64,11 +170,13 @@ function extractBaseCommand(command: string): string {
 // =============================================================================
 
 /**
- * Create a shell restriction engine.
+ * Create a shell restriction engine. Egress destinations are checked against
+ * the URL trust checker; without one, no destination is trusted.
  */
 export function createShellRestrictionEngine(
   config: ShellRestrictions,
-  logger?: Logger
+  logger?: Logger,
+  urlTrustChecker?: UrlTrustChecker
 ): ShellRestrictionEngine {
   const log = logger;
 
@@ -77,82 +185,260 @@ export function createShellRestrictionEngine(
     config.toolNames.map((name) => name.toLowerCase())
   );
 
+  // Resolve tier lists once
+  const tiers = new Map(
+    config.tiers.map((tier): [string, ResolvedTier] => [
+      tier.name,
+      {
+        defaultAction: tier.defaultAction,
+        allow: expandAllowList(tier.allow, config),
+        deny: expandDenyList(tier.deny, config),
+        blockOpaque: tier.blockOpaque,
+        blockSensitive: tier.blockSensitive,
+        egress: tier.egress,
+        writes: tier.writes,
+      },
+    ])
+  );
+
+  const workspaceRoot = resolve(config.workspaceRoot);
+  const sensitiveAccess = createSensitiveAccessDetector(
+    config.sensitivePaths,
+    config.sensitiveCommands,
+    config.sensitiveVariables,
+    workspaceRoot
+  );
+
   function isShellTool(toolName: string): boolean {
     return shellToolNames.has(toolName.toLowerCase());
   }
 
-  function check(command: string, tier: RestrictionTier): ShellCheckResult {
-    // 1. Always-blocked commands (regardless of tier, even permissive)
-    for (const pattern of config.alwaysBlocked) {
-      if (commandContains(command, pattern)) {
-        log?.warn(`Command blocked (always-blocked): "${command}" matched "${pattern}"`);
-        return {
-          allowed: false,
-          reason: `Command matches always-blocked pattern: "${pattern}"`,
-          tier,
-          matchedPattern: pattern,
-        };
+  /** An untrusted destination of the finding ("unknown destination" if it has none) */
+  function untrustedDestination(finding: EgressFinding): string | undefined {
+    if (finding.destinations.length === 0) return 'unknown destination';
+    return finding.destinations.find((destination) => !urlTrustChecker?.checkUrl(destination).trusted);
+  }
+
+  /** The egress the tier blocks, with the reason, or null */
+  function checkEgress(findings: EgressFinding[], mode: Tier['egress']): { finding: EgressFinding; reason: string } | null {
+    if (mode === 'allow') return null;
+
+    for (const finding of findings) {
+      if (mode === 'all') {
+        return { finding, reason: `Network egress blocked (${finding.tool})` };
+      }
+      if (mode === 'untrusted-uploads' && finding.kind !== 'upload') continue;
+
+      const destination = untrustedDestination(finding);
+      if (destination) {
+        const what = finding.kind === 'upload' ? 'Upload of local data' : 'Network connection';
+        return { finding, reason: `${what} to untrusted destination blocked: ${destination} (${finding.tool})` };
       }
     }
+    return null;
+  }
 
-    // 2. Apply tier-based restrictions
-    switch (tier) {
-      case 'permissive':
-        // Everything allowed (except always-blocked above)
-        return { allowed: true, tier };
-
-      case 'cautious':
-        // Block dangerous commands
-        for (const pattern of config.dangerousCommands) {
-          if (commandContains(command, pattern)) {
-            log?.info(`Command blocked (cautious tier): "${command}" matched "${pattern}"`);
-            return {
-              allowed: false,
-              reason: `Taint level reduced to "cautious" tier. Dangerous command blocked: "${pattern}"`,
-              tier,
-              matchedPattern: pattern,
-            };
-          }
-        }
-        return { allowed: true, tier };
-
-      case 'restricted': {
-        // Only safe commands allowed
-        const baseCmd = extractBaseCommand(command);
-        const isSafe = config.safeCommands.some((safe) => {
-          const safeBase = safe.toLowerCase().split(/\s+/)[0];
-          return baseCmd === safeBase;
-        });
-
-        if (isSafe) {
-          return { allowed: true, tier };
-        }
-
-        log?.info(`Command blocked (restricted tier): "${command}" is not in safe list`);
-        return {
-          allowed: false,
-          reason: `Taint level reduced to "restricted" tier. Only safe commands are allowed (ls, cat, echo, etc.). Command "${baseCmd}" is not in the safe list.`,
-          tier,
-        };
+  /**
+   * Check that every command in the script matches one of the tier's allowed
+   * command specs; returns the blocking result, or null if all are allowed.
+   */
+  function checkAllowList(analysis: CommandAnalysis, tier: RestrictionTier, rules: ResolvedTier): ShellCheckResult | null {
+    const rule = `tier:${tier}`;
+
+    if (rules.allow.length === 0) {
+      // All shell commands blocked
+      log?.warn(`Command blocked (${tier} tier): all shell commands blocked`);
+      return {
+        allowed: false,
+        reason: `Taint level critically low — ${tier.toUpperCase()}. All shell commands are blocked. The agent has accessed too many untrusted websites.`,
+        tier,
+        rule,
+      };
+    }
+
+    // Only allowed commands — every command in the script must match a spec
+    const examples = rules.allow.slice(0, 3).map((spec) => spec.command).join(', ');
+    for (const parsed of analysis.script.commands) {
+      if (parsed.argv.length === 0) continue;
+
+      let safe = false;
+      let forbidden: { spec: SafeCommandSpec; flag: string } | undefined;
+      for (const spec of rules.allow) {
+        const verdict = checkSafeCommand(parsed, spec);
+        if (verdict === 'safe') safe = true;
+        else if (verdict && !forbidden) forbidden = { spec, flag: verdict.flag };
       }
+      if (safe) continue;
 
-      case 'lockdown':
-        // All shell commands blocked
-        log?.warn(`Command blocked (lockdown tier): all shell commands blocked`);
+      if (forbidden) {
+        log?.info(`Command blocked (${tier} tier): "${parsed.text}" uses forbidden flag ${forbidden.flag}`);
         return {
           allowed: false,
-          reason: 'Taint level critically low — LOCKDOWN. All shell commands are blocked. The agent has accessed too many untrusted websites.',
+          reason: `Taint level reduced to "${tier}" tier. Only safe commands are allowed (${examples}, etc.). Flag "${forbidden.flag}" is not allowed for "${forbidden.spec.command}".`,
           tier,
+          matchedPattern: forbidden.flag,
+          rule,
         };
+      }
 
-      default:
-        // Unknown tier, fail-safe to block
-        return {
-          allowed: false,
-          reason: `Unknown restriction tier: ${tier as string}`,
-          tier,
-        };
+      const baseCmd = extractBaseCommand(parsed);
+      log?.info(`Command blocked (${tier} tier): "${parsed.text}" is not in safe list`);
+      return {
+        allowed: false,
+        reason: `Taint level reduced to "${tier}" tier. Only safe commands are allowed (${examples}, etc.). Command "${baseCmd}" is not in the safe list.`,
+        tier,
+        rule,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a write target resolves inside the workspace from every directory
+   * the command may run in. Targets built from variables ($PWD/..) or
+   * substitutions never do, nor do relative targets after an unresolved cd.
+   */
+  function insideWorkspace(target: string, cwd: WorkingDirectories): boolean {
+    if (/[$`]/.test(expandHome(target, homedir()))) return false;
+    const paths = resolvePathFrom(target, cwd);
+    return paths !== null && paths.every((path) => path === workspaceRoot || path.startsWith(`${workspaceRoot}/`));
+  }
+
+  /** The write the tier blocks, with the reason, or null */
+  function checkWrites(analysis: CommandAnalysis, mode: Tier['writes']): { target: WriteTarget; reason: string } | null {
+    if (mode === 'allow') return null;
+    const targets = findWriteTargets(analysis);
+    const directories = trackWorkingDirectories(analysis, workspaceRoot);
+    for (const target of targets) {
+      if (mode === 'none') {
+        return { target, reason: `File write blocked: ${target.target} (${target.via})` };
+      }
+      if (!insideWorkspace(target.target, directories[target.index])) {
+        return { target, reason: `Write outside the workspace blocked: ${target.target} (${target.via})` };
+      }
+    }
+    return null;
+  }
+
+  function check(command: string, tier: RestrictionTier, options: ShellCheckOptions = {}): ShellCheckResult {
+    // Split into every command that would run and normalize away obfuscation
+    // (quoting, whitespace, absolute paths, flag order, base64 payloads)
+    const analysis = analyzeCommand(command);
+    const opaque = config.opaqueExecution === 'allow' ? [] : detectOpaqueExecution(analysis);
+
+    // 1. Always-blocked commands (regardless of tier, even permissive)
+    const blockedPattern = findMatchingPattern(analysis, config.alwaysBlocked);
+    if (blockedPattern) {
+      log?.warn(`Command blocked (always-blocked): "${command}" matched "${blockedPattern}"`);
+      return {
+        allowed: false,
+        reason: `Command matches always-blocked pattern: "${blockedPattern}"`,
+        tier,
+        matchedPattern: blockedPattern,
+        rule: 'always-blocked',
+      };
+    }
+
+    if (opaque.length > 0 && config.opaqueExecution === 'block') {
+      log?.warn(`Command blocked (opaque execution): "${command}" uses ${opaque[0].kind}`);
+      return {
+        allowed: false,
+        reason: `Opaque execution blocked (${opaque[0].kind}): the command that would run cannot be inspected`,
+        tier,
+        matchedPattern: `opaque:${opaque[0].kind}`,
+        rule: 'opaque-execution',
+      };
+    }
+
+    if (options.tierRules === false) {
+      return { allowed: true, tier, rule: 'always-blocked' };
+    }
+
+    // 2. Apply the tier's rules
+    const rule = `tier:${tier}`;
+    const rules = tiers.get(tier);
+    if (!rules) {
+      // Unknown tier, fail-safe to block
+      return {
+        allowed: false,
+        reason: `Unknown restriction tier: ${tier}`,
+        tier,
+        rule,
+      };
+    }
+
+    const pattern = findMatchingPattern(analysis, rules.deny);
+    if (pattern) {
+      log?.info(`Command blocked (${tier} tier): "${command}" matched "${pattern}"`);
+      return {
+        allowed: false,
+        reason: `Taint level reduced to "${tier}" tier. Dangerous command blocked: "${pattern}"`,
+        tier,
+        matchedPattern: pattern,
+        rule,
+      };
     }
+
+    if (rules.blockOpaque && opaque.length > 0) {
+      log?.info(`Command blocked (${tier} tier): "${command}" uses ${opaque[0].kind}`);
+      return {
+        allowed: false,
+        reason: `Taint level reduced to "${tier}" tier. Opaque execution blocked (${opaque[0].kind}): the command that would run cannot be inspected`,
+        tier,
+        matchedPattern: `opaque:${opaque[0].kind}`,
+        rule,
+      };
+    }
+
+    if (rules.defaultAction === 'deny') {
+      const denied = checkAllowList(analysis, tier, rules);
+      if (denied) return denied;
+    }
+
+    const sensitive = rules.blockSensitive ? sensitiveAccess.detect(analysis) : null;
+    if (sensitive) {
+      const what = {
+        path: `Access to sensitive path blocked: ${sensitive.target} (matches "${sensitive.pattern}")`,
+        unresolved: `Relative path after "${sensitive.pattern}" blocked: ${sensitive.target} (directory cannot be resolved)`,
+        command: `Environment dump blocked: "${sensitive.pattern}"`,
+        variable: `Secret variable blocked: ${sensitive.target} (matches "${sensitive.pattern}")`,
+      }[sensitive.kind];
+      log?.info(`Command blocked (${tier} tier): "${command}" ${what}`);
+      return {
+        allowed: false,
+        reason: `Taint level reduced to "${tier}" tier. ${what}`,
+        tier,
+        matchedPattern: `sensitive:${sensitive.pattern}`,
+        rule,
+      };
+    }
+
+    const write = checkWrites(analysis, rules.writes);
+    if (write) {
+      log?.info(`Command blocked (${tier} tier): "${command}" ${write.reason}`);
+      return {
+        allowed: false,
+        reason: `Taint level reduced to "${tier}" tier. ${write.reason}`,
+        tier,
+        matchedPattern: `write:${write.target.via}`,
+        rule,
+      };
+    }
+
+    const egress = checkEgress(analyzeEgress(analysis), rules.egress);
+    if (egress) {
+      log?.info(`Command blocked (${tier} tier): "${command}" ${egress.reason}`);
+      return {
+        allowed: false,
+        reason: `Taint level reduced to "${tier}" tier. ${egress.reason}`,
+        tier,
+        matchedPattern: `egress:${egress.finding.kind}`,
+        rule,
+      };
+    }
+
+    return { allowed: true, tier, rule };
   }
 
   return { check, isShellTool };
@@ -0,0 +1,120 @@
+/**
+ * Tests for Taint State Store
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createJsonFileStateStore, createMemoryStateStore, createStateStore } from './state-store.js';
+import type { PersistenceConfig } from '../config/schema.js';
+import type { TaintState } from './tracker.js';
+
+function makeState(overrides: Partial<TaintState> = {}): TaintState {
+  return {
+    level: 70,
+    tier: 'cautious',
+    events: [],
+    lastUntrustedAt: Date.now(),
+    recoveredUntil: Date.now(),
+    visitedDomains: {},
+    ...overrides,
+  };
+}
+
+describe('TaintStateStore', () => {
+  let dir: string;
+  let config: PersistenceConfig;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'clawtaint-state-'));
+    config = {
+      enabled: true,
+      backend: 'json',
+      path: join(dir, 'state.json'),
+      expiryMinutes: 60,
+      maxEvents: 2,
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('createJsonFileStateStore', () => {
+    it('should persist state across store instances', () => {
+      createJsonFileStateStore(config).save('s1', makeState());
+
+      const restored = createJsonFileStateStore(config).load('s1');
+      expect(restored?.level).toBe(70);
+      expect(restored?.tier).toBe('cautious');
+    });
+
+    it('should persist visited domains', () => {
+      createJsonFileStateStore(config).save('s1', makeState({ visitedDomains: { 'docs.vendor.io': 1000 } }));
+      expect(createJsonFileStateStore(config).load('s1')?.visitedDomains).toEqual({ 'docs.vendor.io': 1000 });
+    });
+
+    it('should return null for unknown sessions', () => {
+      expect(createJsonFileStateStore(config).load('missing')).toBe(null);
+    });
+
+    it('should keep only the most recent events', () => {
+      const event = (n: number): TaintState['events'][number] => ({
+        timestamp: n,
+        type: 'penalty',
+        amount: 10,
+        reason: `url ${n}`,
+        previousLevel: 100,
+        newLevel: 90,
+        tier: 'permissive',
+      });
+      createJsonFileStateStore(config).save('s1', makeState({ events: [event(1), event(2), event(3)] }));
+
+      const restored = createJsonFileStateStore(config).load('s1');
+      expect(restored?.events.map((e) => e.reason)).toEqual(['url 2', 'url 3']);
+    });
+
+    it('should discard expired state', () => {
+      vi.useFakeTimers();
+      createJsonFileStateStore(config).save('s1', makeState());
+
+      vi.advanceTimersByTime(61 * 60_000);
+      const store = createJsonFileStateStore(config);
+      expect(store.load('s1')).toBe(null);
+      expect(store.loadAll().size).toBe(0);
+    });
+
+    it('should delete state', () => {
+      const store = createJsonFileStateStore(config);
+      store.save('s1', makeState());
+      store.delete('s1');
+      expect(createJsonFileStateStore(config).load('s1')).toBe(null);
+    });
+
+    it('should ignore a corrupt state file', () => {
+      writeFileSync(config.path, '{not json', 'utf-8');
+      const store = createJsonFileStateStore(config);
+      expect(store.loadAll().size).toBe(0);
+
+      store.save('s1', makeState());
+      expect(JSON.parse(readFileSync(config.path, 'utf-8')).sessions.s1.level).toBe(70);
+    });
+  });
+
+  describe('createMemoryStateStore', () => {
+    it('should keep state in memory', () => {
+      const store = createMemoryStateStore(config);
+      store.save('s1', makeState());
+      expect(store.load('s1')?.level).toBe(70);
+      expect(existsSync(config.path)).toBe(false);
+    });
+  });
+
+  describe('createStateStore', () => {
+    it('should return null when disabled', () => {
+      expect(createStateStore({ ...config, enabled: false })).toBe(null);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Taint State Store
+ *
+ * Persists per-session taint state so that restarting the OpenClaw host or
+ * reloading the plugin does not reset a tainted session back to full trust.
+ * Backends are pluggable; the default writes a local JSON file.
+ */
+
+import { readFileSync, writeFileSync, renameSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import type { PersistenceConfig, RestrictionTier } from '../config/schema.js';
+import type { Logger } from '../utils/logger.js';
+import type { TaintEvent, TaintState } from './tracker.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PersistedTaintState {
+  /** Taint level at the time of saving */
+  level: number;
+  /** Restriction tier at the time of saving */
+  tier: RestrictionTier;
+  /** Most recent taint events */
+  events: TaintEvent[];
+  /** When an untrusted URL was last accessed */
+  lastUntrustedAt: number;
+  /** Up to when time-based recovery had been credited */
+  recoveredUntil: number;
+  /** Penalized domains → when their last full-price visit was */
+  visitedDomains?: Record<string, number>;
+  /** When the state was saved */
+  updatedAt: number;
+}
+
+export interface TaintStateStore {
+  /** Load a session's state, or null if none (or expired) */
+  load(sessionId: string): PersistedTaintState | null;
+  /** Load all non-expired session states */
+  loadAll(): Map<string, PersistedTaintState>;
+  /** Save a session's state */
+  save(sessionId: string, state: TaintState): void;
+  /** Delete a session's state */
+  delete(sessionId: string): void;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toPersisted(state: TaintState, maxEvents: number): PersistedTaintState {
+  return {
+    level: state.level,
+    tier: state.tier,
+    events: maxEvents === 0 ? [] : state.events.slice(-maxEvents),
+    lastUntrustedAt: state.lastUntrustedAt,
+    recoveredUntil: state.recoveredUntil,
+    visitedDomains: state.visitedDomains,
+    updatedAt: Date.now(),
+  };
+}
+
+function isExpired(state: PersistedTaintState, expiryMinutes: number, now: number): boolean {
+  return expiryMinutes > 0 && now - state.updatedAt > expiryMinutes * 60_000;
+}
+
+// =============================================================================
+// MEMORY STORE
+// =============================================================================
+
+/**
+ * Create an in-memory store (state lives only as long as the store instance).
+ */
+export function createMemoryStateStore(config: PersistenceConfig): TaintStateStore {
+  const entries = new Map<string, PersistedTaintState>();
+
+  function load(sessionId: string): PersistedTaintState | null {
+    const entry = entries.get(sessionId);
+    if (!entry) return null;
+    if (isExpired(entry, config.expiryMinutes, Date.now())) {
+      entries.delete(sessionId);
+      return null;
+    }
+    return entry;
+  }
+
+  function loadAll(): Map<string, PersistedTaintState> {
+    const now = Date.now();
+    for (const [id, entry] of entries) {
+      if (isExpired(entry, config.expiryMinutes, now)) entries.delete(id);
+    }
+    return new Map(entries);
+  }
+
+  function save(sessionId: string, state: TaintState): void {
+    entries.set(sessionId, toPersisted(state, config.maxEvents));
+  }
+
+  function remove(sessionId: string): void {
+    entries.delete(sessionId);
+  }
+
+  return { load, loadAll, save, delete: remove };
+}
+
+// =============================================================================
+// JSON FILE STORE
+// =============================================================================
+
+/**
+ * Create a store backed by a local JSON file.
+ * The file is read once on creation and rewritten atomically on every save.
+ */
+export function createJsonFileStateStore(
+  config: PersistenceConfig,
+  logger?: Logger
+): TaintStateStore {
+  const log = logger;
+  const filePath = resolve(config.path);
+  const entries = new Map<string, PersistedTaintState>();
+
+  function read(): void {
+    if (!existsSync(filePath)) return;
+
+    try {
+      const parsed = JSON.parse(readFileSync(filePath, 'utf-8')) as {
+        sessions?: Record<string, PersistedTaintState>;
+      };
+      const now = Date.now();
+      for (const [id, entry] of Object.entries(parsed.sessions ?? {})) {
+        if (typeof entry?.level !== 'number' || isExpired(entry, config.expiryMinutes, now)) continue;
+        entries.set(id, entry);
+      }
+      log?.info(`Loaded taint state for ${entries.size} session(s) from ${filePath}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log?.error(`Failed to read taint state from ${filePath}: ${errorMessage}`);
+    }
+  }
+
+  function write(): void {
+    try {
+      mkdirSync(dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify({ version: 1, sessions: Object.fromEntries(entries) }), 'utf-8');
+      renameSync(tmpPath, filePath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log?.error(`Failed to write taint state to ${filePath}: ${errorMessage}`);
+    }
+  }
+
+  function load(sessionId: string): PersistedTaintState | null {
+    const entry = entries.get(sessionId);
+    if (!entry) return null;
+    if (isExpired(entry, config.expiryMinutes, Date.now())) {
+      entries.delete(sessionId);
+      write();
+      return null;
+    }
+    return entry;
+  }
+
+  function loadAll(): Map<string, PersistedTaintState> {
+    const now = Date.now();
+    for (const [id, entry] of entries) {
+      if (isExpired(entry, config.expiryMinutes, now)) entries.delete(id);
+    }
+    return new Map(entries);
+  }
+
+  function save(sessionId: string, state: TaintState): void {
+    entries.set(sessionId, toPersisted(state, config.maxEvents));
+    write();
+  }
+
+  function remove(sessionId: string): void {
+    if (entries.delete(sessionId)) write();
+  }
+
+  read();
+
+  return { load, loadAll, save, delete: remove };
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Create the configured state store, or null when persistence is disabled.
+ */
+export function createStateStore(
+  config: PersistenceConfig,
+  logger?: Logger
+): TaintStateStore | null {
+  if (!config.enabled) return null;
+
+  switch (config.backend) {
+    case 'memory':
+      return createMemoryStateStore(config);
+    case 'json':
+      return createJsonFileStateStore(config, logger);
+    default:
+      logger?.warn(`Unknown persistence backend: ${config.backend as string}, state will not persist`);
+      return null;
+  }
+}
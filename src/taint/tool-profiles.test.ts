@@ -0,0 +1,93 @@
+/**
+ * Tests for Tool Profiles
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createToolProfiles, extractCommand, parseJsonPath, selectJsonPath } from './tool-profiles.js';
+
+describe('parseJsonPath', () => {
+  it('should split dots, wildcards and indexes', () => {
+    expect(parseJsonPath('$.requests[*].url')).toEqual(['requests', '*', 'url']);
+    expect(parseJsonPath('steps[0].command')).toEqual(['steps', '0', 'command']);
+  });
+});
+
+describe('selectJsonPath', () => {
+  const input = {
+    navigate: { url: 'https://a.com' },
+    requests: [{ url: 'https://b.com' }, { url: 'https://c.com' }, { method: 'GET' }],
+  };
+
+  it('should select nested values', () => {
+    expect(selectJsonPath(input, 'navigate.url')).toEqual(['https://a.com']);
+    expect(selectJsonPath(input, 'requests[1].url')).toEqual(['https://c.com']);
+  });
+
+  it('should fan out over wildcards', () => {
+    expect(selectJsonPath(input, 'requests[*].url')).toEqual(['https://b.com', 'https://c.com']);
+  });
+
+  it('should return nothing for missing paths', () => {
+    expect(selectJsonPath(input, 'navigate.href')).toEqual([]);
+    expect(selectJsonPath(input, 'navigate.url.host')).toEqual([]);
+  });
+});
+
+describe('extractCommand', () => {
+  it('should read the generic command fields', () => {
+    expect(extractCommand({ cmd: '  ls -la ' })).toBe('ls -la');
+    expect(extractCommand({ path: '/tmp' })).toBe(null);
+  });
+});
+
+describe('createToolProfiles', () => {
+  const profiles = createToolProfiles({
+    Browser: { urlPaths: ['navigate.url', 'tabs[*].url'], penaltyMultiplier: 2 },
+    ci: { commandPaths: ['job.steps[*].run'], penaltyMultiplier: 1 },
+  });
+
+  it('should look profiles up case-insensitively', () => {
+    expect(profiles.get('browser')?.penaltyMultiplier).toBe(2);
+    expect(profiles.penaltyMultiplier('BROWSER')).toBe(2);
+    expect(profiles.penaltyMultiplier('unknown')).toBe(1);
+  });
+
+  it('should extract URLs from profile paths only', () => {
+    expect(profiles.extractUrls('browser', {
+      navigate: { url: 'evil.xyz' },
+      tabs: [{ url: 'https://a.com' }, { url: 'https://b.com' }],
+      source: 'notes.md',
+    })).toEqual(['evil.xyz', 'https://a.com', 'https://b.com']);
+  });
+
+  it('should extract URLs from the profiled command', () => {
+    const input = { job: { steps: [{ run: 'git clone git@evil.xyz:x/y.git' }] } };
+    expect(profiles.extractCommands('ci', input)).toEqual(['git clone git@evil.xyz:x/y.git']);
+    expect(profiles.extractUrls('ci', input)).toEqual(['git@evil.xyz:x/y.git']);
+  });
+
+  it('should extract every profiled command', () => {
+    const input = { job: { steps: [{ run: 'npm test' }, { run: '' }, { run: 'curl https://evil.xyz' }] } };
+    expect(profiles.extractCommands('ci', input)).toEqual(['npm test', 'curl https://evil.xyz']);
+    expect(profiles.extractUrls('ci', input)).toEqual(['https://evil.xyz']);
+  });
+
+  it('should fall back to the generic extraction without a profile', () => {
+    expect(profiles.extractUrls('fetch', { url: 'https://a.com' })).toEqual(['https://a.com']);
+    expect(profiles.extractCommands('Bash', { command: 'ls' })).toEqual(['ls']);
+    expect(profiles.extractCommands('Bash', { path: '/tmp' })).toEqual([]);
+  });
+
+  it('should replace an extracted command without mutating the input', () => {
+    const input = { job: { steps: [{ run: 'ls' }, { run: 'make' }] }, name: 'ls' };
+    expect(profiles.replaceCommand('ci', input, 'ls', 'ls -la')).toEqual({
+      job: { steps: [{ run: 'ls -la' }, { run: 'make' }] },
+      name: 'ls',
+    });
+    expect(input.job.steps[0].run).toBe('ls');
+
+    expect(profiles.replaceCommand('ci', input, 'make', 'make -n').job.steps).toEqual([{ run: 'ls' }, { run: 'make -n' }]);
+    expect(profiles.replaceCommand('Bash', { cmd: ' ls ', description: 'x' }, 'ls', 'ls -la')).toEqual({ cmd: 'ls -la', description: 'x' });
+    expect(profiles.replaceCommand('Bash', { path: '/tmp' }, 'ls', 'ls -la')).toEqual({ path: '/tmp' });
+  });
+});
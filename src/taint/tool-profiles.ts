@@ -0,0 +1,219 @@
+/**
+ * Tool Profiles
+ *
+ * Per-tool knowledge of where a tool keeps its URLs and commands, and how
+ * much accessing an untrusted URL through it costs. Tools without a profile
+ * fall back to the generic field guesses.
+ *
+ * Paths are dot-separated JSON paths into the tool input:
+ *   "navigate.url"        → toolInput.navigate.url
+ *   "requests[*].url"     → the url of every item of toolInput.requests
+ *   "steps[0].command"    → the command of the first step
+ */
+
+import type { ToolProfile } from '../config/schema.js';
+import type { Logger } from '../utils/logger.js';
+import { extractUrlsFromCommand, extractUrlsFromContext } from './url-trust.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ToolProfileRegistry {
+  /** The profile configured for a tool, if any */
+  get(toolName: string): ToolProfile | undefined;
+  /** Every URL the tool call accesses */
+  extractUrls(toolName: string, toolInput: Record<string, unknown>): string[];
+  /** Every command the tool call runs (one per matching command path) */
+  extractCommands(toolName: string, toolInput: Record<string, unknown>): string[];
+  /** A copy of the tool input with one of the commands extractCommands finds replaced */
+  replaceCommand(
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    from: string,
+    to: string
+  ): Record<string, unknown>;
+  /** Multiplier for URL penalties incurred through the tool (1 without a profile) */
+  penaltyMultiplier(toolName: string): number;
+}
+
+// =============================================================================
+// JSON PATHS
+// =============================================================================
+
+/**
+ * Split a JSON path into segments: "a.b[*].c" → ["a", "b", "*", "c"].
+ * A leading "$." is optional.
+ */
+export function parseJsonPath(path: string): string[] {
+  return path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\*|\d+)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment.length > 0);
+}
+
+/**
+ * Select every value at a JSON path. "*" matches every array item or object value.
+ */
+export function selectJsonPath(root: unknown, path: string): unknown[] {
+  let nodes: unknown[] = [root];
+
+  for (const segment of parseJsonPath(path)) {
+    const next: unknown[] = [];
+    for (const node of nodes) {
+      if (node === null || typeof node !== 'object') continue;
+      if (segment === '*') {
+        next.push(...Object.values(node as Record<string, unknown>));
+      } else {
+        const value = (node as Record<string, unknown>)[segment];
+        if (value !== undefined) next.push(value);
+      }
+    }
+    nodes = next;
+  }
+
+  return nodes;
+}
+
+/**
+ * Replace a string at a JSON path, returning a copy of the root. Values
+ * equal to `from` (trimmed) are replaced, a string array item by item.
+ */
+export function replaceJsonPathString(root: unknown, path: string, from: string, to: string): unknown {
+  const replace = (value: unknown): unknown => (typeof value === 'string' && value.trim() === from ? to : value);
+
+  function visit(node: unknown, segments: string[]): unknown {
+    if (segments.length === 0) return Array.isArray(node) ? node.map(replace) : replace(node);
+    if (node === null || typeof node !== 'object') return node;
+
+    const [segment, ...rest] = segments;
+    if (Array.isArray(node)) {
+      return node.map((item, i) => (segment === '*' || segment === String(i) ? visit(item, rest) : item));
+    }
+
+    const record = node as Record<string, unknown>;
+    const copy = { ...record };
+    for (const key of segment === '*' ? Object.keys(record) : [segment]) {
+      if (record[key] !== undefined) copy[key] = visit(record[key], rest);
+    }
+    return copy;
+  }
+
+  return visit(root, parseJsonPath(path));
+}
+
+/**
+ * Collect the strings at the given paths (a string array counts item by item).
+ */
+function selectStrings(root: unknown, paths: string[]): string[] {
+  const strings: string[] = [];
+  for (const path of paths) {
+    for (const value of selectJsonPath(root, path)) {
+      const items = Array.isArray(value) ? value : [value];
+      for (const item of items) {
+        if (typeof item === 'string' && item.trim().length > 0) strings.push(item.trim());
+      }
+    }
+  }
+  return strings;
+}
+
+// =============================================================================
+// DEFAULT EXTRACTION
+// =============================================================================
+
+const COMMAND_FIELDS = ['command', 'cmd', 'script', 'input', 'code', 'content'];
+
+/**
+ * Extract the command string from tool input.
+ * Handles various field names used by different shell tools.
+ */
+export function extractCommand(toolInput: Record<string, unknown>): string | null {
+  for (const field of COMMAND_FIELDS) {
+    const value = toolInput[field];
+    if (typeof value === 'string' && value.trim().length > 0) {
+      return value.trim();
+    }
+  }
+  return null;
+}
+
+// =============================================================================
+// TOOL PROFILE REGISTRY
+// =============================================================================
+
+/**
+ * Create a registry of tool profiles, keyed by tool name (case-insensitive).
+ */
+export function createToolProfiles(
+  tools: Record<string, ToolProfile>,
+  logger?: Logger
+): ToolProfileRegistry {
+  const log = logger;
+  const profiles = new Map(
+    Object.entries(tools).map(([name, profile]) => [name.toLowerCase(), profile])
+  );
+
+  if (profiles.size > 0) {
+    log?.debug(`Loaded tool profiles: ${[...profiles.keys()].join(', ')}`);
+  }
+
+  function get(toolName: string): ToolProfile | undefined {
+    return profiles.get(toolName.toLowerCase());
+  }
+
+  function extractCommands(toolName: string, toolInput: Record<string, unknown>): string[] {
+    const profile = get(toolName);
+    if (!profile?.commandPaths) {
+      const command = extractCommand(toolInput);
+      return command === null ? [] : [command];
+    }
+    return [...new Set(selectStrings(toolInput, profile.commandPaths))];
+  }
+
+  function replaceCommand(
+    toolName: string,
+    toolInput: Record<string, unknown>,
+    from: string,
+    to: string
+  ): Record<string, unknown> {
+    const profile = get(toolName);
+    if (!profile?.commandPaths) {
+      const field = COMMAND_FIELDS.find((name) => {
+        const value = toolInput[name];
+        return typeof value === 'string' && value.trim() === from;
+      });
+      return field ? { ...toolInput, [field]: to } : toolInput;
+    }
+
+    let replaced: unknown = toolInput;
+    for (const path of profile.commandPaths) {
+      replaced = replaceJsonPathString(replaced, path, from, to);
+    }
+    return replaced as Record<string, unknown>;
+  }
+
+  function extractUrls(toolName: string, toolInput: Record<string, unknown>): string[] {
+    const profile = get(toolName);
+    if (!profile || (!profile.urlPaths && !profile.commandPaths)) {
+      return extractUrlsFromContext(toolInput);
+    }
+
+    // URL fields as-is, then URLs mentioned in the command
+    const urls = selectStrings(toolInput, profile.urlPaths ?? []);
+    for (const command of profile.commandPaths ? extractCommands(toolName, toolInput) : []) {
+      urls.push(...extractUrlsFromCommand(command));
+    }
+
+    return [...new Set(urls)];
+  }
+
+  return {
+    get,
+    extractUrls,
+    extractCommands,
+    replaceCommand,
+    penaltyMultiplier: (toolName) => get(toolName)?.penaltyMultiplier ?? 1,
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Tests for Tool Restrictions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createToolRestrictionEngine } from './tool-restrictions.js';
+import { ToolRestrictionSchema } from '../config/schema.js';
+
+function engine(restrictions: Record<string, Record<string, unknown>>) {
+  const parsed = Object.fromEntries(
+    Object.entries(restrictions).map(([tool, raw]) => [tool, ToolRestrictionSchema.parse(raw)])
+  );
+  return createToolRestrictionEngine(parsed, '/work/project');
+}
+
+describe('createToolRestrictionEngine', () => {
+  it('should allow tools without restrictions', () => {
+    expect(engine({}).check('file_write', { path: '/etc/passwd' }, 'lockdown')).toEqual({ allowed: true });
+  });
+
+  it('should block tools in their blockIn tiers', () => {
+    const tools = engine({ 'mcp__*': { blockIn: ['restricted', 'lockdown'] } });
+
+    const result = tools.check('MCP__github__create_issue', {}, 'restricted');
+    expect(result.allowed).toBe(false);
+    expect(result.rule).toBe('tool:mcp__*');
+    expect(result.reason).toContain('"restricted" tier');
+    expect(tools.check('mcp__github__create_issue', {}, 'cautious').allowed).toBe(true);
+  });
+
+  it('should only allow tools in their allowIn tiers', () => {
+    const tools = engine({ node_eval: { allowIn: ['permissive', 'cautious'] } });
+    expect(tools.check('node_eval', {}, 'cautious').allowed).toBe(true);
+    expect(tools.check('node_eval', {}, 'restricted').allowed).toBe(false);
+  });
+
+  it('should filter argument values with wildcards', () => {
+    const tools = engine({
+      http_request: { filters: [{ path: 'method', allow: ['GET', 'HEAD'] }, { path: 'headers[*]', deny: ['*authorization*'] }] },
+    });
+
+    expect(tools.check('http_request', { method: 'get' }, 'cautious').allowed).toBe(true);
+    expect(tools.check('http_request', { method: 'POST' }, 'cautious').reason).toContain('argument method not allowed: POST');
+    expect(tools.check('http_request', { method: 'GET', headers: ['Accept: */*', 'Authorization: x'] }, 'cautious').allowed).toBe(false);
+  });
+
+  it('should resolve path filters against the workspace root', () => {
+    const tools = engine({
+      '*_edit': { filters: [{ path: 'files[*].path', match: 'path', allow: ['./**'], deny: ['**/.env'] }] },
+    });
+    const edit = (...paths: string[]) => tools.check('file_edit', { files: paths.map((path) => ({ path })) }, 'cautious');
+
+    expect(edit('src/a.ts', '/work/project/README.md').allowed).toBe(true);
+    expect(edit('src/a.ts', '../other/a.ts').allowed).toBe(false);
+    expect(edit('~/.ssh/authorized_keys').allowed).toBe(false);
+    expect(edit('config/.env').allowed).toBe(false);
+  });
+
+  it('should apply filters only in their tiers', () => {
+    const tools = engine({ file_write: { filters: [{ path: 'path', match: 'path', allow: ['./**'], tiers: ['cautious'] }] } });
+    expect(tools.check('file_write', { path: '/etc/hosts' }, 'permissive').allowed).toBe(true);
+    expect(tools.check('file_write', { path: '/etc/hosts' }, 'cautious').allowed).toBe(false);
+  });
+
+  it('should apply every matching entry in order', () => {
+    const tools = engine({
+      '*': { filters: [{ path: 'path', match: 'path', deny: ['/etc/**'] }] },
+      file_write: { blockIn: ['lockdown'] },
+    });
+    expect(tools.check('file_write', { path: '/etc/hosts' }, 'permissive').rule).toBe('tool:*');
+    expect(tools.check('file_write', { path: 'a.txt' }, 'lockdown').rule).toBe('tool:file_write');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tool Restrictions
+ *
+ * Per-tier restrictions for any tool, not just shell tools: file write and
+ * edit tools, code execution tools, MCP tools. Each entry, keyed by a tool
+ * name or glob, can:
+ *
+ *   blockIn  → block the tool in the given tiers
+ *   allowIn  → allow the tool only in the given tiers
+ *   filters  → check argument values against allow/deny patterns, e.g. a
+ *              write tool's path confined to the workspace when cautious
+ *
+ * Every entry whose glob matches the tool applies, in configuration order.
+ */
+
+import { resolve } from 'node:path';
+import type { ArgumentFilter, RestrictionTier, ToolRestriction } from '../config/schema.js';
+import type { Logger } from '../utils/logger.js';
+import { wildcardToRegex } from './policy-engine.js';
+import { resolvePathArgument, resolvePathGlob } from './sensitive-access.js';
+import { selectJsonPath } from './tool-profiles.js';
+import { pathGlobToRegex } from './url-trust.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ToolRestrictionResult {
+  /** Whether the tool call is allowed */
+  allowed: boolean;
+  /** Reason for blocking (if blocked) */
+  reason?: string;
+  /** The entry that blocked: "tool:<name or glob>" */
+  rule?: string;
+}
+
+export interface ToolRestrictionEngine {
+  /** Check a tool call against the restrictions of the given tier */
+  check(toolName: string, toolInput: Record<string, unknown>, tier: RestrictionTier): ToolRestrictionResult;
+}
+
+interface CompiledFilter {
+  filter: ArgumentFilter;
+  allow?: RegExp[];
+  deny: RegExp[];
+}
+
+interface CompiledRestriction {
+  pattern: string;
+  regex: RegExp;
+  restriction: ToolRestriction;
+  filters: CompiledFilter[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * The string values at a JSON path (a string array counts item by item).
+ */
+function argumentValues(toolInput: Record<string, unknown>, path: string): string[] {
+  return selectJsonPath(toolInput, path)
+    .flatMap((value) => (Array.isArray(value) ? value : [value]))
+    .filter((value): value is string => typeof value === 'string');
+}
+
+// =============================================================================
+// TOOL RESTRICTION ENGINE
+// =============================================================================
+
+/**
+ * Create a tool restriction engine. Path filters resolve against the
+ * workspace root, like shellRestrictions.sensitivePaths.
+ */
+export function createToolRestrictionEngine(
+  restrictions: Record<string, ToolRestriction>,
+  workspaceRoot: string,
+  logger?: Logger
+): ToolRestrictionEngine {
+  const log = logger;
+  const root = resolve(workspaceRoot);
+
+  function compilePattern(pattern: string, filter: ArgumentFilter): RegExp {
+    return filter.match === 'path' ? pathGlobToRegex(resolvePathGlob(pattern, root)) : wildcardToRegex(pattern);
+  }
+
+  const compiled: CompiledRestriction[] = Object.entries(restrictions).map(([pattern, restriction]) => ({
+    pattern,
+    regex: wildcardToRegex(pattern),
+    restriction,
+    filters: restriction.filters.map((filter) => ({
+      filter,
+      allow: filter.allow?.map((allowed) => compilePattern(allowed, filter)),
+      deny: filter.deny.map((denied) => compilePattern(denied, filter)),
+    })),
+  }));
+
+  /** The first argument value a filter rejects, or null */
+  function rejectedValue({ filter, allow, deny }: CompiledFilter, toolInput: Record<string, unknown>): string | null {
+    for (const value of argumentValues(toolInput, filter.path)) {
+      const subject = filter.match === 'path' ? resolvePathArgument(value, root) : value;
+      if (deny.some((regex) => regex.test(subject))) return value;
+      if (allow && !allow.some((regex) => regex.test(subject))) return value;
+    }
+    return null;
+  }
+
+  function check(toolName: string, toolInput: Record<string, unknown>, tier: RestrictionTier): ToolRestrictionResult {
+    for (const { pattern, regex, restriction, filters } of compiled) {
+      if (!regex.test(toolName)) continue;
+      const rule = `tool:${pattern}`;
+
+      const blocked = restriction.blockIn.includes(tier)
+        || (restriction.allowIn !== undefined && !restriction.allowIn.includes(tier));
+      if (blocked) {
+        log?.info(`Tool blocked (${tier} tier): ${toolName} (${rule})`);
+        return {
+          allowed: false,
+          reason: `Taint level reduced to "${tier}" tier. Tool "${toolName}" is not allowed in this tier.`,
+          rule,
+        };
+      }
+
+      for (const compiledFilter of filters) {
+        const { tiers, path } = compiledFilter.filter;
+        if (tiers && !tiers.includes(tier)) continue;
+
+        const value = rejectedValue(compiledFilter, toolInput);
+        if (value === null) continue;
+
+        log?.info(`Tool blocked (${tier} tier): ${toolName} argument ${path}="${value}" (${rule})`);
+        return {
+          allowed: false,
+          reason: `Taint level reduced to "${tier}" tier. Tool "${toolName}" argument ${path} not allowed: ${value}`,
+          rule,
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  return { check };
+}
@@ -2,8 +2,8 @@
  * Tests for Taint Level Tracker
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
-import { createTaintTracker, resolveTier } from './tracker.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTaintTracker, resolveTier, resolveTierWithHysteresis, strictestTier, tierRank } from './tracker.js';
 import type { TaintConfig } from '../config/schema.js';
 
 const defaultConfig: TaintConfig = {
@@ -11,6 +11,15 @@ const defaultConfig: TaintConfig = {
   penaltyPerUntrustedUrl: 10,
   recoveryPerTrustedUrl: 5,
   minimumLevel: 0,
+  timeRecovery: {
+    pointsPerMinute: 0,
+    delayMinutes: 0,
+    ceiling: 100,
+  },
+  repeatVisits: { factor: 1, windowMinutes: 60 },
+  rateRules: [],
+  urlAggregation: 'worst',
+  hysteresis: 0,
   thresholds: [
     { minTaint: 75, maxTaint: 100, tier: 'permissive' },
     { minTaint: 50, maxTaint: 74, tier: 'cautious' },
@@ -184,3 +193,353 @@ describe('createTaintTracker', () => {
     expect(tracker.getTier()).toBe('lockdown');
   });
 });
+
+// =============================================================================
+// Custom tiers
+// =============================================================================
+
+describe('custom tier ordering', () => {
+  const thresholds = [
+    { minTaint: 60, maxTaint: 100, tier: 'open' },
+    { minTaint: 30, maxTaint: 59, tier: 'no-network' },
+    { minTaint: 0, maxTaint: 29, tier: 'sealed' },
+  ];
+
+  it('should rank tiers by their thresholds', () => {
+    expect(tierRank('open', thresholds)).toBe(0);
+    expect(tierRank('no-network', thresholds)).toBe(1);
+    expect(tierRank('sealed', thresholds)).toBe(2);
+    expect(strictestTier(thresholds)).toBe('sealed');
+  });
+
+  it('should rank an unmapped tier as the most restrictive', () => {
+    expect(tierRank('lockdown', thresholds)).toBe(3);
+  });
+
+  it('should fall back to the strictest tier below all thresholds', () => {
+    expect(resolveTier(45, thresholds)).toBe('no-network');
+    expect(resolveTier(-5, thresholds)).toBe('sealed');
+  });
+});
+
+// =============================================================================
+// resolveTierWithHysteresis
+// =============================================================================
+
+describe('resolveTierWithHysteresis', () => {
+  const thresholds = defaultConfig.thresholds;
+
+  it('should tighten immediately when crossing a threshold', () => {
+    expect(resolveTierWithHysteresis(74, 'permissive', thresholds, 5)).toBe('cautious');
+    expect(resolveTierWithHysteresis(10, 'permissive', thresholds, 5)).toBe('lockdown');
+  });
+
+  it('should hold the stricter tier until the margin is cleared', () => {
+    expect(resolveTierWithHysteresis(75, 'cautious', thresholds, 5)).toBe('cautious');
+    expect(resolveTierWithHysteresis(79, 'cautious', thresholds, 5)).toBe('cautious');
+    expect(resolveTierWithHysteresis(80, 'cautious', thresholds, 5)).toBe('permissive');
+  });
+
+  it('should relax step by step when the margin only clears a lower tier', () => {
+    expect(resolveTierWithHysteresis(77, 'restricted', thresholds, 5)).toBe('cautious');
+  });
+
+  it('should behave like resolveTier without hysteresis', () => {
+    expect(resolveTierWithHysteresis(75, 'cautious', thresholds, 0)).toBe('permissive');
+  });
+});
+
+// =============================================================================
+// Time-based recovery
+// =============================================================================
+
+describe('time-based recovery', () => {
+  const recoveringConfig: TaintConfig = {
+    ...defaultConfig,
+    recoveryPerTrustedUrl: 0,
+    timeRecovery: { pointsPerMinute: 2, delayMinutes: 5, ceiling: 90 },
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not recover when disabled', () => {
+    const tracker = createTaintTracker(defaultConfig);
+    tracker.applyPenalty('untrusted');
+    vi.advanceTimersByTime(60 * 60_000);
+    expect(tracker.getLevel()).toBe(90);
+  });
+
+  it('should wait for the delay before recovering', () => {
+    const tracker = createTaintTracker(recoveringConfig);
+    for (let i = 0; i < 4; i++) tracker.applyPenalty(`url ${i}`);
+    expect(tracker.getLevel()).toBe(60);
+
+    vi.advanceTimersByTime(5 * 60_000);
+    expect(tracker.getLevel()).toBe(60);
+
+    vi.advanceTimersByTime(3 * 60_000);
+    expect(tracker.getLevel()).toBe(66);
+  });
+
+  it('should restart the delay on new untrusted access', () => {
+    const tracker = createTaintTracker(recoveringConfig);
+    tracker.applyPenalty('url 1');
+    vi.advanceTimersByTime(4 * 60_000);
+    tracker.applyPenalty('url 2');
+    vi.advanceTimersByTime(4 * 60_000);
+    expect(tracker.getLevel()).toBe(80);
+  });
+
+  it('should carry fractional minutes over between checks', () => {
+    const tracker = createTaintTracker({
+      ...recoveringConfig,
+      timeRecovery: { pointsPerMinute: 1, delayMinutes: 0, ceiling: 100 },
+    });
+    tracker.applyPenalty('untrusted');
+
+    vi.advanceTimersByTime(90_000);
+    expect(tracker.getLevel()).toBe(91);
+    vi.advanceTimersByTime(30_000);
+    expect(tracker.getLevel()).toBe(92);
+  });
+
+  it('should not recover past the ceiling', () => {
+    const tracker = createTaintTracker(recoveringConfig);
+    for (let i = 0; i < 3; i++) tracker.applyPenalty(`url ${i}`);
+    vi.advanceTimersByTime(60 * 60_000);
+    expect(tracker.getLevel()).toBe(90);
+  });
+
+  it('should relax the tier as the level recovers', () => {
+    const tracker = createTaintTracker(recoveringConfig);
+    for (let i = 0; i < 3; i++) tracker.applyPenalty(`url ${i}`);
+    expect(tracker.getTier()).toBe('cautious');
+
+    vi.advanceTimersByTime(8 * 60_000);
+    expect(tracker.getLevel()).toBe(76);
+    expect(tracker.getTier()).toBe('permissive');
+  });
+
+  it('should record time recovery events', () => {
+    const tracker = createTaintTracker(recoveringConfig);
+    tracker.applyPenalty('url 1');
+    tracker.applyPenalty('url 2');
+    vi.advanceTimersByTime(10 * 60_000);
+
+    const events = tracker.getState().events;
+    expect(events).toHaveLength(3);
+    expect(events[2].type).toBe('time-recovery');
+    expect(events[2].previousLevel).toBe(80);
+    expect(events[2].newLevel).toBe(90);
+    expect(events[2].amount).toBe(10);
+  });
+
+  it('should respect hysteresis when recovering', () => {
+    const tracker = createTaintTracker({
+      ...recoveringConfig,
+      timeRecovery: { pointsPerMinute: 1, delayMinutes: 0, ceiling: 100 },
+      hysteresis: 5,
+    });
+    for (let i = 0; i < 3; i++) tracker.applyPenalty(`url ${i}`);
+
+    vi.advanceTimersByTime(7 * 60_000);
+    expect(tracker.getLevel()).toBe(77);
+    expect(tracker.getTier()).toBe('cautious');
+
+    vi.advanceTimersByTime(3 * 60_000);
+    expect(tracker.getLevel()).toBe(80);
+    expect(tracker.getTier()).toBe('permissive');
+  });
+});
+
+// =============================================================================
+// Tier escalation
+// =============================================================================
+
+describe('escalateToTier', () => {
+  it('should drop the level into the target tier', () => {
+    const tracker = createTaintTracker(defaultConfig);
+    const event = tracker.escalateToTier('restricted', 'tainted command');
+
+    expect(event?.type).toBe('escalation');
+    expect(tracker.getLevel()).toBe(49);
+    expect(tracker.getTier()).toBe('restricted');
+  });
+
+  it('should hold a tier without a threshold until the level recovers', () => {
+    const tracker = createTaintTracker({ ...defaultConfig, recoveryPerTrustedUrl: 10 });
+    tracker.escalateToTier('quarantine', 'tainted command');
+    expect(tracker.getLevel()).toBe(24);
+
+    tracker.applyPenalty('untrusted');
+    expect(tracker.getTier()).toBe('quarantine');
+    tracker.applyRecovery('trusted');
+    expect(tracker.getTier()).toBe('quarantine');
+
+    tracker.applyRecovery('trusted');
+    expect(tracker.getLevel()).toBe(34);
+    expect(tracker.getTier()).toBe('restricted');
+  });
+
+  it('should not relax a stricter tier', () => {
+    const tracker = createTaintTracker({ ...defaultConfig, initialLevel: 10 });
+    expect(tracker.escalateToTier('cautious', 'tainted command')).toBe(null);
+    expect(tracker.getLevel()).toBe(10);
+    expect(tracker.getTier()).toBe('lockdown');
+  });
+});
+
+// =============================================================================
+// Penalty options
+// =============================================================================
+
+describe('applyPenalty options', () => {
+  it('should apply a custom amount and event type', () => {
+    const tracker = createTaintTracker(defaultConfig);
+    const event = tracker.applyPenalty('injection', undefined, undefined, { amount: 25, type: 'injection' });
+
+    expect(event.type).toBe('injection');
+    expect(event.amount).toBe(25);
+    expect(tracker.getLevel()).toBe(75);
+  });
+});
+
+// =============================================================================
+// Repeat visits
+// =============================================================================
+
+describe('repeat visits', () => {
+  const discountingConfig: TaintConfig = {
+    ...defaultConfig,
+    repeatVisits: { factor: 0.2, windowMinutes: 30 },
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should charge full price for the first visit and the factor for repeats', () => {
+    const tracker = createTaintTracker(discountingConfig);
+    const first = tracker.applyPenalty('docs', 'https://docs.vendor.io/a', 'docs.vendor.io');
+    const repeat = tracker.applyPenalty('docs', 'https://docs.vendor.io/b', 'docs.vendor.io');
+
+    expect(first).toMatchObject({ visit: 'first', amount: 10 });
+    expect(repeat).toMatchObject({ visit: 'repeat', amount: 2 });
+    expect(tracker.getLevel()).toBe(88);
+  });
+
+  it('should charge each different domain in full', () => {
+    const tracker = createTaintTracker(discountingConfig);
+    tracker.applyPenalty('a', undefined, 'a.xyz');
+    tracker.applyPenalty('b', undefined, 'b.xyz');
+    expect(tracker.getLevel()).toBe(80);
+    expect(tracker.getState().visitedDomains).toHaveProperty('b.xyz');
+  });
+
+  it('should charge full price again once the window has passed', () => {
+    const tracker = createTaintTracker(discountingConfig);
+    tracker.applyPenalty('docs', undefined, 'docs.vendor.io');
+    vi.advanceTimersByTime(30 * 60_000);
+    expect(tracker.applyPenalty('docs', undefined, 'docs.vendor.io').visit).toBe('first');
+    expect(tracker.getLevel()).toBe(80);
+  });
+
+  it('should keep charging full price with the default factor', () => {
+    const tracker = createTaintTracker(defaultConfig);
+    tracker.applyPenalty('a', undefined, 'a.xyz');
+    const repeat = tracker.applyPenalty('a', undefined, 'a.xyz');
+    expect(repeat).toMatchObject({ visit: 'repeat', amount: 10 });
+  });
+
+  it('should not discount injection penalties or penalties without a domain', () => {
+    const tracker = createTaintTracker(discountingConfig);
+    tracker.applyPenalty('a', undefined, 'a.xyz');
+    const injection = tracker.applyPenalty('inj', undefined, 'a.xyz', { amount: 20, type: 'injection' });
+    const anonymous = tracker.applyPenalty('unknown');
+
+    expect(injection.visit).toBeUndefined();
+    expect(injection.amount).toBe(20);
+    expect(anonymous.visit).toBeUndefined();
+  });
+
+  it('should forget visits on reset', () => {
+    const tracker = createTaintTracker(discountingConfig);
+    tracker.applyPenalty('a', undefined, 'a.xyz');
+    tracker.reset();
+    expect(tracker.applyPenalty('a', undefined, 'a.xyz').visit).toBe('first');
+  });
+});
+
+// =============================================================================
+// Rate rules
+// =============================================================================
+
+describe('rate rules', () => {
+  const ratedConfig: TaintConfig = {
+    ...defaultConfig,
+    penaltyPerUntrustedUrl: 1,
+    rateRules: [
+      { count: 'domains', limit: 3, windowSeconds: 60, tier: 'restricted' },
+      { count: 'penalties', limit: 5, windowSeconds: 10, tier: 'lockdown' },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should jump to the rule tier when too many domains are hit in the window', () => {
+    const tracker = createTaintTracker(ratedConfig);
+    for (const domain of ['a.xyz', 'b.xyz', 'c.xyz']) {
+      tracker.applyPenalty('untrusted', undefined, domain);
+      vi.advanceTimersByTime(5_000);
+    }
+    expect(tracker.getTier()).toBe('permissive');
+
+    tracker.applyPenalty('untrusted', undefined, 'd.xyz');
+    const event = tracker.getState().events.at(-1);
+    expect(event?.type).toBe('rate-escalation');
+    expect(event?.reason).toBe('Rate limit exceeded: 4 untrusted domains in 60s (limit 3)');
+    expect(tracker.getTier()).toBe('restricted');
+  });
+
+  it('should not fire when the accesses are spread out', () => {
+    const tracker = createTaintTracker(ratedConfig);
+    for (const domain of ['a.xyz', 'b.xyz', 'c.xyz', 'd.xyz', 'e.xyz']) {
+      tracker.applyPenalty('untrusted', undefined, domain);
+      vi.advanceTimersByTime(30_000);
+    }
+    expect(tracker.getTier()).toBe('permissive');
+    expect(tracker.getState().events.every((event) => event.type === 'penalty')).toBe(true);
+  });
+
+  it('should count repeat domains once for domain rules but every penalty for penalty rules', () => {
+    const tracker = createTaintTracker(ratedConfig);
+    for (let i = 0; i < 5; i++) tracker.applyPenalty('loop', undefined, 'a.xyz');
+    expect(tracker.getTier()).toBe('permissive');
+
+    tracker.applyPenalty('loop', undefined, 'a.xyz');
+    expect(tracker.getTier()).toBe('lockdown');
+  });
+
+  it('should apply the strictest broken rule', () => {
+    const tracker = createTaintTracker(ratedConfig);
+    for (const domain of ['a', 'b', 'c', 'd', 'e', 'f']) tracker.applyPenalty('burst', undefined, `${domain}.xyz`);
+    const escalations = tracker.getState().events.filter((event) => event.type === 'rate-escalation');
+    expect(escalations.map((event) => event.tier)).toEqual(['restricted', 'lockdown']);
+  });
+});
@@ -6,7 +6,7 @@
  * stricter shell restrictions.
  */
 
-import type { TaintConfig, RestrictionTier, TaintThreshold } from '../config/schema.js';
+import type { RateRule, TaintConfig, RestrictionTier, TaintThreshold } from '../config/schema.js';
 import type { Logger } from '../utils/logger.js';
 
 // =============================================================================
@@ -15,11 +15,13 @@ import type { Logger } from '../utils/logger.js';
 
 export interface TaintEvent {
   timestamp: number;
-  type: 'penalty' | 'recovery';
+  type: 'penalty' | 'recovery' | 'time-recovery' | 'escalation' | 'rate-escalation' | 'injection';
   amount: number;
   reason: string;
   url?: string;
   domain?: string;
+  /** Whether a penalty was for the first visit to its domain in the window, or a repeat */
+  visit?: 'first' | 'repeat';
   previousLevel: number;
   newLevel: number;
   tier: RestrictionTier;
@@ -32,6 +34,29 @@ export interface TaintState {
   tier: RestrictionTier;
   /** History of taint events */
   events: TaintEvent[];
+  /** When an untrusted URL was last accessed (or the tracker was created) */
+  lastUntrustedAt: number;
+  /** Up to when time-based recovery has been credited */
+  recoveredUntil: number;
+  /** Penalized domains → when their last full-price visit was */
+  visitedDomains: Record<string, number>;
+}
+
+export interface TaintPenaltyOptions {
+  /** Penalty amount (defaults to penaltyPerUntrustedUrl) */
+  amount?: number;
+  /** Event type recorded for the penalty (defaults to 'penalty') */
+  type?: 'penalty' | 'injection';
+}
+
+export interface TaintTrackerOptions {
+  /** Previously saved state to resume from instead of the initial level */
+  initialState?: Omit<TaintState, 'events' | 'visitedDomains'> & {
+    events?: TaintEvent[];
+    visitedDomains?: Record<string, number>;
+  };
+  /** Called after every change to the taint state (e.g. to persist it) */
+  onChange?: (state: Readonly<TaintState>) => void;
 }
 
 export interface TaintTracker {
@@ -41,10 +66,14 @@ export interface TaintTracker {
   getTier(): RestrictionTier;
   /** Get the full taint state */
   getState(): Readonly<TaintState>;
-  /** Apply a penalty (untrusted URL accessed) */
-  applyPenalty(reason: string, url?: string, domain?: string): TaintEvent;
+  /** Apply a penalty (untrusted URL accessed, injection detected, ...) */
+  applyPenalty(reason: string, url?: string, domain?: string, options?: TaintPenaltyOptions): TaintEvent;
   /** Apply recovery (trusted URL accessed) */
   applyRecovery(reason: string, url?: string, domain?: string): TaintEvent;
+  /** Force the session into at least the given tier; returns the event if the tier tightened */
+  escalateToTier(tier: RestrictionTier, reason: string, url?: string, domain?: string): TaintEvent | null;
+  /** Credit time-based recovery up to now; returns the event if the level rose */
+  applyTimeRecovery(now?: number): TaintEvent | null;
   /** Reset taint to initial level */
   reset(): void;
 }
@@ -70,9 +99,57 @@ export function resolveTier(
   }
 
   // Fallback: if level is 0 or below all thresholds, use the most restrictive
-  if (level <= 0) return 'lockdown';
+  const order = tierOrder(thresholds);
+  if (level <= 0) return order[order.length - 1];
   // If above all thresholds, use the most permissive
-  return 'permissive';
+  return order[0];
+}
+
+/**
+ * Tiers from least to most restrictive, ordered by their thresholds.
+ */
+function tierOrder(thresholds: TaintThreshold[]): RestrictionTier[] {
+  const sorted = [...thresholds].sort((a, b) => b.minTaint - a.minTaint);
+  return [...new Set(sorted.map((threshold) => threshold.tier))];
+}
+
+/**
+ * Rank of a tier from least (0) to most restrictive. A tier no threshold
+ * maps to ranks as the most restrictive.
+ */
+export function tierRank(tier: RestrictionTier, thresholds: TaintThreshold[]): number {
+  const order = tierOrder(thresholds);
+  const rank = order.indexOf(tier);
+  return rank === -1 ? order.length : rank;
+}
+
+/**
+ * The most restrictive tier the thresholds map to.
+ */
+export function strictestTier(thresholds: TaintThreshold[]): RestrictionTier {
+  const order = tierOrder(thresholds);
+  return order[order.length - 1];
+}
+
+/**
+ * Determine the tier for a new level given the tier currently in force.
+ *
+ * Moving to a stricter tier happens as soon as the level crosses a
+ * threshold. Relaxing only happens once the level has climbed `hysteresis`
+ * points past the lower bound of the more permissive tier, so the tier does
+ * not flap when the level hovers around a threshold.
+ */
+export function resolveTierWithHysteresis(
+  level: number,
+  currentTier: RestrictionTier,
+  thresholds: TaintThreshold[],
+  hysteresis: number
+): RestrictionTier {
+  const tier = resolveTier(level, thresholds);
+  if (hysteresis === 0 || tierRank(tier, thresholds) >= tierRank(currentTier, thresholds)) return tier;
+
+  const relaxed = resolveTier(level - hysteresis, thresholds);
+  return tierRank(relaxed, thresholds) < tierRank(currentTier, thresholds) ? relaxed : currentTier;
 }
 
 // =============================================================================
@@ -84,43 +161,185 @@ export function resolveTier(
  */
 export function createTaintTracker(
   config: TaintConfig,
-  logger?: Logger
+  logger?: Logger,
+  options: TaintTrackerOptions = {}
 ): TaintTracker {
   const log = logger;
+  const createdAt = Date.now();
+  const { initialState, onChange } = options;
 
-  const state: TaintState = {
-    level: config.initialLevel,
-    tier: resolveTier(config.initialLevel, config.thresholds),
-    events: [],
-  };
+  const state: TaintState = initialState
+    ? {
+      ...initialState,
+      events: [...(initialState.events ?? [])],
+      visitedDomains: { ...(initialState.visitedDomains ?? {}) },
+    }
+    : {
+      level: config.initialLevel,
+      tier: resolveTier(config.initialLevel, config.thresholds),
+      events: [],
+      lastUntrustedAt: createdAt,
+      recoveredUntil: createdAt,
+      visitedDomains: {},
+    };
+
+  function snapshot(): TaintState {
+    return { ...state, events: [...state.events], visitedDomains: { ...state.visitedDomains } };
+  }
+
+  function notifyChange(): void {
+    onChange?.(snapshot());
+  }
 
   function clampLevel(level: number): number {
     return Math.max(config.minimumLevel, Math.min(100, level));
   }
 
-  function applyPenalty(reason: string, url?: string, domain?: string): TaintEvent {
+  function hasThreshold(tier: RestrictionTier): boolean {
+    return config.thresholds.some((threshold) => threshold.tier === tier);
+  }
+
+  function nextTier(level: number): RestrictionTier {
+    const tier = resolveTierWithHysteresis(level, state.tier, config.thresholds, config.hysteresis);
+    // A tier without a threshold (only reachable by escalation) holds until
+    // the level recovers out of the strictest tier's range
+    if (!hasThreshold(state.tier) && tier === strictestTier(config.thresholds)) return state.tier;
+    return tier;
+  }
+
+  // Recent untrusted-access penalties, for rate rules (kept in memory only)
+  const recentPenalties: Array<{ at: number; key: string }> = [];
+
+  /** How long a penalty can count towards any rate rule */
+  const longestWindowMs = Math.max(0, ...config.rateRules.map((rule) => rule.windowSeconds * 1000));
+
+  /**
+   * Record an untrusted access and return the strictest rate rule it breaks.
+   */
+  function checkRateRules(key: string, now: number): { rule: RateRule; count: number } | null {
+    if (config.rateRules.length === 0) return null;
+
+    recentPenalties.push({ at: now, key });
+    while (recentPenalties.length > 0 && now - recentPenalties[0].at >= longestWindowMs) {
+      recentPenalties.shift();
+    }
+
+    let broken: { rule: RateRule; count: number } | null = null;
+    for (const rule of config.rateRules) {
+      const inWindow = recentPenalties.filter((p) => now - p.at < rule.windowSeconds * 1000);
+      const count = rule.count === 'domains' ? new Set(inWindow.map((p) => p.key)).size : inWindow.length;
+      if (count <= rule.limit) continue;
+      if (!broken || tierRank(rule.tier, config.thresholds) > tierRank(broken.rule.tier, config.thresholds)) {
+        broken = { rule, count };
+      }
+    }
+    return broken;
+  }
+
+  /**
+   * Classify a penalized visit to a domain. A visit within the window after
+   * the domain's last full-price visit is a repeat; anything else starts a
+   * new window. Expired domains are forgotten.
+   */
+  function recordVisit(domain: string, now: number): 'first' | 'repeat' {
+    const windowMs = config.repeatVisits.windowMinutes * 60_000;
+    for (const [visited, at] of Object.entries(state.visitedDomains)) {
+      if (now - at >= windowMs) delete state.visitedDomains[visited];
+    }
+
+    if (domain in state.visitedDomains) return 'repeat';
+    state.visitedDomains[domain] = now;
+    return 'first';
+  }
+
+  function applyTimeRecovery(now: number = Date.now()): TaintEvent | null {
+    const { pointsPerMinute, delayMinutes, ceiling } = config.timeRecovery;
+    if (pointsPerMinute === 0) return null;
+
+    // Recovery is credited from whichever is later: the end of the delay
+    // after the last untrusted access, or the last time it was credited
+    const start = Math.max(state.lastUntrustedAt + delayMinutes * 60_000, state.recoveredUntil);
+    if (now <= start) return null;
+
+    if (state.level >= ceiling) {
+      state.recoveredUntil = now;
+      return null;
+    }
+
+    const points = Math.floor(((now - start) / 60_000) * pointsPerMinute);
+    if (points <= 0) return null;
+
+    const previousLevel = state.level;
+    const previousTier = state.tier;
+    const newLevel = Math.min(ceiling, clampLevel(state.level + points));
+
+    state.level = newLevel;
+    state.tier = nextTier(newLevel);
+    // Carry over the unused fraction of a point unless the ceiling was reached
+    state.recoveredUntil = newLevel >= ceiling
+      ? now
+      : start + Math.ceil((points / pointsPerMinute) * 60_000);
+
+    const event: TaintEvent = {
+      timestamp: now,
+      type: 'time-recovery',
+      amount: newLevel - previousLevel,
+      reason: `Time-based recovery: no untrusted access for ${Math.floor((now - state.lastUntrustedAt) / 60_000)} min`,
+      previousLevel,
+      newLevel,
+      tier: state.tier,
+    };
+
+    state.events.push(event);
+    notifyChange();
+
+    log?.debug(
+      `Taint time recovery: ${previousLevel} → ${newLevel} (${previousTier} → ${state.tier})`
+    );
+
+    return event;
+  }
+
+  function applyPenalty(
+    reason: string,
+    url?: string,
+    domain?: string,
+    options: TaintPenaltyOptions = {}
+  ): TaintEvent {
+    const now = Date.now();
+    applyTimeRecovery(now);
+
+    const type = options.type ?? 'penalty';
+    const visit = domain && type === 'penalty' ? recordVisit(domain.toLowerCase(), now) : undefined;
+    const baseAmount = options.amount ?? config.penaltyPerUntrustedUrl;
+    const amount = visit === 'repeat' ? baseAmount * config.repeatVisits.factor : baseAmount;
     const previousLevel = state.level;
     const previousTier = state.tier;
 
-    state.level = clampLevel(state.level - config.penaltyPerUntrustedUrl);
-    state.tier = resolveTier(state.level, config.thresholds);
+    state.level = clampLevel(state.level - amount);
+    state.tier = nextTier(state.level);
+    state.lastUntrustedAt = now;
+    state.recoveredUntil = now;
 
     const event: TaintEvent = {
-      timestamp: Date.now(),
-      type: 'penalty',
-      amount: config.penaltyPerUntrustedUrl,
+      timestamp: now,
+      type,
+      amount,
       reason,
       url,
       domain,
+      visit,
       previousLevel,
       newLevel: state.level,
       tier: state.tier,
     };
 
     state.events.push(event);
+    notifyChange();
 
     log?.info(
       `Taint penalty: ${previousLevel} → ${state.level} (${previousTier} → ${state.tier}) | ${reason}`
+      + (visit === 'repeat' ? ' (repeat visit)' : '')
     );
 
     if (previousTier !== state.tier) {
@@ -129,10 +348,28 @@ export function createTaintTracker(
       );
     }
 
+    if (type === 'penalty') {
+      const broken = checkRateRules(domain?.toLowerCase() ?? url ?? reason, now);
+      if (broken) {
+        const { rule, count } = broken;
+        const what = rule.count === 'domains' ? 'untrusted domains' : 'untrusted accesses';
+        escalate(
+          rule.tier,
+          `Rate limit exceeded: ${count} ${what} in ${rule.windowSeconds}s (limit ${rule.limit})`,
+          'rate-escalation',
+          now,
+          url,
+          domain
+        );
+      }
+    }
+
     return event;
   }
 
   function applyRecovery(reason: string, url?: string, domain?: string): TaintEvent {
+    applyTimeRecovery();
+
     if (config.recoveryPerTrustedUrl === 0) {
       // No recovery configured, return a no-op event
       return {
@@ -152,7 +389,7 @@ export function createTaintTracker(
     const previousTier = state.tier;
 
     state.level = clampLevel(state.level + config.recoveryPerTrustedUrl);
-    state.tier = resolveTier(state.level, config.thresholds);
+    state.tier = nextTier(state.level);
 
     const event: TaintEvent = {
       timestamp: Date.now(),
@@ -167,6 +404,7 @@ export function createTaintTracker(
     };
 
     state.events.push(event);
+    notifyChange();
 
     log?.debug(
       `Taint recovery: ${previousLevel} → ${state.level} (${previousTier} → ${state.tier}) | ${reason}`
@@ -175,19 +413,95 @@ export function createTaintTracker(
     return event;
   }
 
+  function escalateToTier(
+    tier: RestrictionTier,
+    reason: string,
+    url?: string,
+    domain?: string
+  ): TaintEvent | null {
+    const now = Date.now();
+    applyTimeRecovery(now);
+    return escalate(tier, reason, 'escalation', now, url, domain);
+  }
+
+  function escalate(
+    tier: RestrictionTier,
+    reason: string,
+    type: 'escalation' | 'rate-escalation',
+    now: number,
+    url?: string,
+    domain?: string
+  ): TaintEvent | null {
+    if (tierRank(state.tier, config.thresholds) >= tierRank(tier, config.thresholds)) return null;
+
+    const previousLevel = state.level;
+    const previousTier = state.tier;
+
+    // Drop the level into the target tier's range so recovery starts from
+    // there; a tier without a threshold starts from the strictest tier's
+    const ceilingTier = hasThreshold(tier) ? tier : strictestTier(config.thresholds);
+    const ceilings = config.thresholds.filter((t) => t.tier === ceilingTier).map((t) => t.maxTaint);
+    state.level = clampLevel(Math.min(state.level, Math.max(...ceilings)));
+    state.tier = tier;
+    state.lastUntrustedAt = now;
+    state.recoveredUntil = now;
+
+    const event: TaintEvent = {
+      timestamp: now,
+      type,
+      amount: previousLevel - state.level,
+      reason,
+      url,
+      domain,
+      previousLevel,
+      newLevel: state.level,
+      tier: state.tier,
+    };
+
+    state.events.push(event);
+    notifyChange();
+
+    log?.warn(`⚠ Restriction tier escalated: ${previousTier} → ${state.tier} | ${reason}`);
+
+    return event;
+  }
+
   function reset(): void {
+    const now = Date.now();
     state.level = config.initialLevel;
     state.tier = resolveTier(config.initialLevel, config.thresholds);
     state.events = [];
+    state.visitedDomains = {};
+    recentPenalties.length = 0;
+    state.lastUntrustedAt = now;
+    state.recoveredUntil = now;
+    notifyChange();
     log?.info(`Taint level reset to ${config.initialLevel}`);
   }
 
+  function getLevel(): number {
+    applyTimeRecovery();
+    return state.level;
+  }
+
+  function getTier(): RestrictionTier {
+    applyTimeRecovery();
+    return state.tier;
+  }
+
+  function getState(): Readonly<TaintState> {
+    applyTimeRecovery();
+    return snapshot();
+  }
+
   return {
-    getLevel: () => state.level,
-    getTier: () => state.tier,
-    getState: () => ({ ...state, events: [...state.events] }),
+    getLevel,
+    getTier,
+    getState,
     applyPenalty,
     applyRecovery,
+    escalateToTier,
+    applyTimeRecovery,
     reset,
   };
 }
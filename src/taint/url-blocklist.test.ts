@@ -0,0 +1,60 @@
+/**
+ * Tests for URL Blocklist
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createUrlBlocklist, parseBlocklist } from './url-blocklist.js';
+
+describe('parseBlocklist', () => {
+  it('should parse hosts format', () => {
+    const content = [
+      '# malware hosts',
+      '127.0.0.1 localhost',
+      '0.0.0.0 evil.example  # trailing comment',
+      '0.0.0.0 a.bad.test b.bad.test',
+      '::1 ip6-localhost',
+    ].join('\n');
+    expect(parseBlocklist(content)).toEqual(['evil.example', 'a.bad.test', 'b.bad.test']);
+  });
+
+  it('should parse one domain per line', () => {
+    expect(parseBlocklist('Phish.Example.\n\n  malware.test\r\n')).toEqual(['phish.example', 'malware.test']);
+  });
+});
+
+describe('createUrlBlocklist', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'clawtaint-blocklist-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should match glob patterns', () => {
+    const blocklist = createUrlBlocklist({ patterns: ['*.phish.xyz'], listFiles: [], tier: 'lockdown' });
+    expect(blocklist.match('login.phish.xyz')).toBe('*.phish.xyz');
+    expect(blocklist.match('phish.example')).toBe(null);
+  });
+
+  it('should block list file domains and their subdomains', () => {
+    const listFile = join(dir, 'hosts.txt');
+    writeFileSync(listFile, '0.0.0.0 evil.example\n', 'utf-8');
+
+    const blocklist = createUrlBlocklist({ patterns: [], listFiles: [listFile], tier: 'lockdown' });
+    expect(blocklist.match('evil.example')).toBe('evil.example');
+    expect(blocklist.match('cdn.EVIL.example')).toBe('evil.example');
+    expect(blocklist.match('notevil.example')).toBe(null);
+    expect(blocklist.size()).toBe(1);
+  });
+
+  it('should skip missing list files', () => {
+    const blocklist = createUrlBlocklist({ patterns: ['x.test'], listFiles: [join(dir, 'missing.txt')], tier: 'lockdown' });
+    expect(blocklist.size()).toBe(1);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * URL Blocklist
+ *
+ * Known-malicious domains (phishing, malware, exfiltration endpoints).
+ * Entries come from glob patterns in the config and from local list files
+ * in hosts format ("0.0.0.0 evil.example") or one domain per line.
+ * A blocked domain also blocks all of its subdomains.
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { BlockedUrls } from '../config/schema.js';
+import type { Logger } from '../utils/logger.js';
+import { matchesGlobPattern } from './url-trust.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface UrlBlocklist {
+  /** Return the entry that blocks a domain, or null if it is not blocked */
+  match(domain: string): string | null;
+  /** Number of loaded entries (patterns + list file domains) */
+  size(): number;
+}
+
+// =============================================================================
+// LIST FILE PARSING
+// =============================================================================
+
+// Hosts-file sink addresses that precede the blocked domain
+const SINK_ADDRESSES = new Set(['0.0.0.0', '127.0.0.1', '::', '::1', '::0']);
+
+// Names that appear in every hosts file and must never be blocked
+const HOSTS_BOILERPLATE = new Set([
+  'localhost',
+  'localhost.localdomain',
+  'local',
+  'broadcasthost',
+  'ip6-localhost',
+  'ip6-loopback',
+  '0.0.0.0',
+]);
+
+/**
+ * Parse a blocklist file: hosts format or one domain per line.
+ * Comments (#) and blank lines are ignored.
+ */
+export function parseBlocklist(content: string): string[] {
+  const entries: string[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (line.length === 0) continue;
+
+    const fields = line.split(/\s+/);
+    const names = SINK_ADDRESSES.has(fields[0]) ? fields.slice(1) : fields.slice(0, 1);
+
+    for (const name of names) {
+      const domain = name.toLowerCase().replace(/\.$/, '');
+      if (domain.length > 0 && !HOSTS_BOILERPLATE.has(domain)) {
+        entries.push(domain);
+      }
+    }
+  }
+
+  return entries;
+}
+
+// =============================================================================
+// URL BLOCKLIST
+// =============================================================================
+
+/**
+ * Create a blocklist from configured patterns and list files.
+ * Unreadable list files are logged and skipped.
+ */
+export function createUrlBlocklist(
+  config: BlockedUrls,
+  logger?: Logger
+): UrlBlocklist {
+  const log = logger;
+  const domains = new Set<string>();
+  const patterns = [...config.patterns];
+
+  for (const listFile of config.listFiles) {
+    const filePath = resolve(listFile);
+    try {
+      for (const entry of parseBlocklist(readFileSync(filePath, 'utf-8'))) {
+        if (entry.includes('*') || entry.includes('?')) {
+          patterns.push(entry);
+        } else {
+          domains.add(entry);
+        }
+      }
+      log?.info(`Loaded blocklist ${filePath}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log?.error(`Failed to load blocklist ${filePath}: ${errorMessage}`);
+    }
+  }
+
+  function match(domain: string): string | null {
+    const normalized = domain.toLowerCase().replace(/\.$/, '');
+
+    // The domain itself or any parent domain
+    const labels = normalized.split('.');
+    for (let i = 0; i < labels.length; i++) {
+      const candidate = labels.slice(i).join('.');
+      if (domains.has(candidate)) return candidate;
+    }
+
+    for (const pattern of patterns) {
+      if (matchesGlobPattern(normalized, pattern)) return pattern;
+    }
+
+    return null;
+  }
+
+  return {
+    match,
+    size: () => domains.size + patterns.length,
+  };
+}
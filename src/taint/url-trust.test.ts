@@ -3,13 +3,28 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import { getDefaultConfig } from '../config/defaults.js';
 import {
   extractDomain,
   extractUrlFromContext,
+  extractUrlsFromContext,
   globToRegex,
   matchesGlobPattern,
+  matchesUrlRule,
+  parseUrlRule,
+  parseUrl,
+  pathGlobToRegex,
   createUrlTrustChecker,
 } from './url-trust.js';
+import type { Reputation } from '../config/schema.js';
+
+function reputationWith(neutral: string[] = [], suspicious: string[] = [], malicious: string[] = []): Reputation {
+  return {
+    neutral: { patterns: neutral, penalty: 0 },
+    suspicious: { patterns: suspicious, penalty: 30 },
+    malicious: { patterns: malicious, penalty: 60 },
+  };
+}
 
 // =============================================================================
 // extractDomain
@@ -74,6 +89,81 @@ describe('extractUrlFromContext', () => {
   });
 });
 
+// =============================================================================
+// extractUrlsFromContext
+// =============================================================================
+
+describe('extractUrlsFromContext', () => {
+  it('should extract every URL from a command', () => {
+    expect(extractUrlsFromContext({
+      command: 'curl https://github.com/x && curl https://evil.xyz/y',
+    })).toEqual(['https://github.com/x', 'https://evil.xyz/y']);
+  });
+
+  it('should extract URLs from nested objects', () => {
+    expect(extractUrlsFromContext({ request: { url: 'https://api.evil.xyz/v1' } })).toEqual(['https://api.evil.xyz/v1']);
+  });
+
+  it('should extract URLs from arrays', () => {
+    expect(extractUrlsFromContext({
+      urls: ['https://a.com', 'b.com/page'],
+      batch: [{ href: 'https://c.com' }],
+    })).toEqual(['https://a.com', 'b.com/page', 'https://c.com']);
+  });
+
+  it('should ignore nested URL fields without an absolute URL', () => {
+    expect(extractUrlsFromContext({ edit: { target: 'src/file.ts' } })).toEqual([]);
+  });
+
+  it('should extract remotes and URIs with other schemes from commands', () => {
+    expect(extractUrlsFromContext({
+      command: 'git clone git@evil.xyz:x/y.git && scp deploy@10.0.0.5:/srv/app.tar . && curl ftp://files.evil.xyz/a',
+    })).toEqual(['git@evil.xyz:x/y.git', 'deploy@10.0.0.5:/srv/app.tar', 'ftp://files.evil.xyz/a']);
+    expect(extractUrlsFromContext({ command: 'git remote add up ssh://git@evil.xyz/x.git' }))
+      .toEqual(['ssh://git@evil.xyz/x.git']);
+    expect(extractUrlsFromContext({ command: 'curl data:text/plain;base64,aGk=' }))
+      .toEqual(['data:text/plain;base64,aGk=']);
+  });
+
+  it('should not mistake emails or image digests for remotes', () => {
+    expect(extractUrlsFromContext({
+      command: 'git config user.email me@example.com && docker pull ubuntu@sha256:45b23dee08af',
+    })).toEqual([]);
+  });
+
+  it('should extract nested remotes and data URIs', () => {
+    expect(extractUrlsFromContext({ repo: { source: 'git@github.com:org/x.git', icon: { src: 'data:,hi' } } }))
+      .toEqual(['git@github.com:org/x.git', 'data:,hi']);
+  });
+
+  it('should not repeat duplicate URLs', () => {
+    expect(extractUrlsFromContext({
+      url: 'https://a.com',
+      command: 'curl https://a.com',
+    })).toEqual(['https://a.com']);
+  });
+});
+
+// =============================================================================
+// parseUrl
+// =============================================================================
+
+describe('parseUrl', () => {
+  it('should rewrite scp-style remotes to ssh URLs', () => {
+    const parsed = parseUrl('git@github.com:our-org/app.git');
+    expect(parsed?.protocol).toBe('ssh:');
+    expect(parsed?.hostname).toBe('github.com');
+    expect(parsed?.pathname).toBe('/our-org/app.git');
+    expect(parseUrl('deploy@[fd00::5]:/srv')?.hostname).toBe('[fd00::5]');
+  });
+
+  it('should keep other schemes and default to https', () => {
+    expect(parseUrl('ftp://files.example.com/a')?.protocol).toBe('ftp:');
+    expect(parseUrl('data:,hello')?.protocol).toBe('data:');
+    expect(parseUrl('example.com/a')?.protocol).toBe('https:');
+  });
+});
+
 // =============================================================================
 // globToRegex
 // =============================================================================
@@ -98,6 +188,14 @@ describe('globToRegex', () => {
     expect(regex.test('notexample.com')).toBe(false);
   });
 
+  it('should match the apex and any subdomain with a leading dot', () => {
+    const regex = globToRegex('.github.com');
+    expect(regex.test('github.com')).toBe(true);
+    expect(regex.test('api.github.com')).toBe(true);
+    expect(regex.test('a.b.github.com')).toBe(true);
+    expect(regex.test('evilgithub.com')).toBe(false);
+  });
+
   it('should be case-insensitive', () => {
     const regex = globToRegex('*.GitHub.com');
     expect(regex.test('docs.github.com')).toBe(true);
@@ -122,6 +220,68 @@ describe('matchesGlobPattern', () => {
   });
 });
 
+// =============================================================================
+// URL rules
+// =============================================================================
+
+describe('parseUrlRule', () => {
+  it('should parse a host glob', () => {
+    expect(parseUrlRule('*.github.com')).toEqual({ pattern: '*.github.com', host: '*.github.com' });
+  });
+
+  it('should parse scheme, host, port and path', () => {
+    expect(parseUrlRule('https://github.com:443/our-org/**')).toEqual({
+      pattern: 'https://github.com:443/our-org/**',
+      scheme: 'https',
+      host: 'github.com',
+      port: '443',
+      path: '/our-org/**',
+    });
+  });
+
+  it('should parse scheme-only and hostless rules', () => {
+    expect(parseUrlRule('data:')).toEqual({ pattern: 'data:', scheme: 'data', host: '**' });
+    expect(parseUrlRule('file:///home/me/**')).toMatchObject({ scheme: 'file', host: '', path: '/home/me/**' });
+  });
+
+  it('should ignore user info in rules', () => {
+    expect(parseUrlRule('ssh://git@github.com/our-org/**')).toMatchObject({ scheme: 'ssh', host: 'github.com' });
+  });
+
+  it('should treat an "any path" suffix as no path constraint', () => {
+    expect(parseUrlRule('example.com/**').path).toBeUndefined();
+  });
+});
+
+describe('pathGlobToRegex', () => {
+  it('should match a prefix and everything under it', () => {
+    const regex = pathGlobToRegex('/our-org/**');
+    expect(regex.test('/our-org')).toBe(true);
+    expect(regex.test('/our-org/repo/blob/main')).toBe(true);
+    expect(regex.test('/our-org-evil/repo')).toBe(false);
+  });
+
+  it('should keep * within a segment', () => {
+    const regex = pathGlobToRegex('/docs/*/index.html');
+    expect(regex.test('/docs/v1/index.html')).toBe(true);
+    expect(regex.test('/docs/v1/x/index.html')).toBe(false);
+  });
+});
+
+describe('matchesUrlRule', () => {
+  it('should constrain the scheme', () => {
+    const rule = parseUrlRule('https://example.com');
+    expect(matchesUrlRule(new URL('https://example.com/a'), rule)).toBe(true);
+    expect(matchesUrlRule(new URL('http://example.com/a'), rule)).toBe(false);
+  });
+
+  it('should constrain the port, using the scheme default', () => {
+    const rule = parseUrlRule('example.com:443');
+    expect(matchesUrlRule(new URL('https://example.com/'), rule)).toBe(true);
+    expect(matchesUrlRule(new URL('https://example.com:8443/'), rule)).toBe(false);
+  });
+});
+
 // =============================================================================
 // createUrlTrustChecker
 // =============================================================================
@@ -129,6 +289,10 @@ describe('matchesGlobPattern', () => {
 describe('createUrlTrustChecker', () => {
   const checker = createUrlTrustChecker({
     patterns: ['*.github.com', '*.stackoverflow.com', 'npmjs.com'],
+    reputation: reputationWith(),
+    httpDowngradePenalty: 5,
+    localNetwork: { loopback: 'untrusted', linkLocal: 'untrusted', private: 'untrusted' },
+    lookalikes: { enabled: true, penalty: 30 },
   });
 
   it('should mark trusted URL as trusted', () => {
@@ -166,4 +330,238 @@ describe('createUrlTrustChecker', () => {
     expect(result.urlFound).toBe(true);
     expect(result.trusted).toBe(false);
   });
+
+  it('should report the worst of several URLs', () => {
+    const result = checker.check({ command: 'curl https://api.github.com/x && curl https://evil.xyz/y' });
+    expect(result.trusted).toBe(false);
+    expect(result.domain).toBe('evil.xyz');
+    expect(result.urls.map((entry) => entry.trusted)).toEqual([true, false]);
+  });
+
+  it('should be trusted only when every URL is trusted', () => {
+    const result = checker.check({ urls: ['https://api.github.com', 'https://stackoverflow.com/q/1'] });
+    expect(result.trusted).toBe(false);
+
+    const trusted = checker.check({ urls: ['https://api.github.com', 'https://www.stackoverflow.com/q/1'] });
+    expect(trusted.trusted).toBe(true);
+    expect(trusted.domain).toBe('api.github.com');
+  });
+});
+
+describe('createUrlTrustChecker with the default config', () => {
+  const checker = createUrlTrustChecker(getDefaultConfig().trustedUrls);
+
+  it('should trust the apex domains and their subdomains', () => {
+    expect(checker.check({ url: 'https://github.com/x' }).trusted).toBe(true);
+    expect(checker.check({ url: 'https://npmjs.com' }).trusted).toBe(true);
+    expect(checker.check({ url: 'https://docs.github.com/en' }).trusted).toBe(true);
+    expect(checker.check({ url: 'https://github.com.evil.xyz' }).trusted).toBe(false);
+  });
+
+  it('should not trust cloud metadata services or local files', () => {
+    const metadata = checker.check({ url: 'http://169.254.169.254/latest/meta-data/' });
+    expect(metadata.classification).toBe('untrusted');
+    expect(metadata.matchedPattern).toBe('link-local');
+    expect(checker.check({ url: 'http://metadata.google.internal/computeMetadata/v1/' }).classification)
+      .toBe('untrusted');
+    expect(checker.check({ url: 'file:///etc/passwd' }).classification).toBe('untrusted');
+    expect(checker.check({ url: 'http://localhost:3000' }).classification).toBe('trusted');
+  });
+});
+
+describe('createUrlTrustChecker with URL rules', () => {
+  const checker = createUrlTrustChecker({
+    patterns: ['https://github.com/our-org/**', '*.python.org', 'http://legacy.internal'],
+    reputation: reputationWith(['github.com', 'gist.github.com']),
+    httpDowngradePenalty: 5,
+    localNetwork: { loopback: 'untrusted', linkLocal: 'untrusted', private: 'untrusted' },
+    lookalikes: { enabled: true, penalty: 30 },
+  });
+
+  it('should trust a path under a trusted prefix', () => {
+    const result = checker.check({ url: 'https://github.com/our-org/app' });
+    expect(result.classification).toBe('trusted');
+    expect(result.matchedPattern).toBe('https://github.com/our-org/**');
+  });
+
+  it('should treat the rest of a neutral host as neutral', () => {
+    const result = checker.check({ url: 'https://github.com/attacker/app' });
+    expect(result.trusted).toBe(false);
+    expect(result.classification).toBe('neutral');
+  });
+
+  it('should flag a trusted host reached over plain HTTP', () => {
+    const result = checker.check({ url: 'http://docs.python.org/3/' });
+    expect(result.trusted).toBe(false);
+    expect(result.classification).toBe('http-downgrade');
+  });
+
+  it('should not flag HTTP when the rule asks for it', () => {
+    expect(checker.check({ url: 'http://legacy.internal/wiki' }).classification).toBe('trusted');
+  });
+
+  it('should report the most severe URL', () => {
+    const result = checker.check({
+      urls: ['https://github.com/our-org/a', 'https://github.com/other/b', 'http://docs.python.org'],
+    });
+    expect(result.classification).toBe('http-downgrade');
+    expect(result.domain).toBe('docs.python.org');
+  });
+});
+
+describe('createUrlTrustChecker with IP ranges and local hosts', () => {
+  const checker = createUrlTrustChecker({
+    patterns: ['203.0.113.0/24', '2001:db8::/32'],
+    reputation: reputationWith(['127.0.0.1']),
+    httpDowngradePenalty: 5,
+    localNetwork: { loopback: 'trusted', linkLocal: 'untrusted', private: 'neutral' },
+    lookalikes: { enabled: true, penalty: 30 },
+  });
+
+  it('should trust addresses inside a CIDR rule', () => {
+    expect(checker.check({ url: 'http://203.0.113.7:8080/api' }).classification).toBe('trusted');
+    expect(checker.check({ url: 'https://[2001:db8::1]/' }).classification).toBe('trusted');
+    expect(checker.check({ url: 'https://198.51.100.1/' }).classification).toBe('untrusted');
+  });
+
+  it('should apply the loopback policy', () => {
+    const result = checker.check({ url: 'http://localhost:3000' });
+    expect(result.classification).toBe('trusted');
+    expect(result.matchedPattern).toBe('loopback');
+    expect(checker.check({ url: 'http://[::1]:8080' }).classification).toBe('trusted');
+  });
+
+  it('should apply the private network policy', () => {
+    expect(checker.check({ url: 'http://10.1.2.3/metrics' }).classification).toBe('neutral');
+    expect(checker.check({ url: 'http://192.168.1.10' }).classification).toBe('neutral');
+  });
+
+  it('should apply the link-local policy', () => {
+    expect(checker.check({ url: 'http://169.254.169.254/latest/meta-data/' }).classification).toBe('untrusted');
+    expect(checker.check({ url: 'http://[fe80::1]/' }).classification).toBe('untrusted');
+  });
+
+  it('should let explicit rules override the local network policy', () => {
+    expect(checker.check({ url: 'http://127.0.0.1:3000' }).classification).toBe('neutral');
+  });
+
+  it('should see through obfuscated IPv4 notation', () => {
+    expect(checker.check({ url: 'http://0x7f000001/' }).classification).toBe('neutral');
+  });
+});
+
+describe('createUrlTrustChecker with lookalike detection', () => {
+  const trustedUrls = {
+    patterns: ['*.github.com', '.npmjs.com', '10.0.0.0/8'],
+    reputation: reputationWith(),
+    httpDowngradePenalty: 5,
+    localNetwork: { loopback: 'trusted' as const, private: 'neutral' as const },
+    lookalikes: { enabled: true, penalty: 30 },
+  };
+
+  it('should classify homographs of trusted domains as lookalikes', () => {
+    const result = createUrlTrustChecker(trustedUrls).check({ url: 'https://g\u0456thub.com/login' });
+    expect(result.trusted).toBe(false);
+    expect(result.classification).toBe('lookalike');
+    expect(result.urls[0].lookalike).toMatchObject({ kind: 'mixed-script', target: 'github.com' });
+  });
+
+  it('should rank lookalikes above untrusted URLs', () => {
+    const result = createUrlTrustChecker(trustedUrls).check({
+      command: 'curl https://evil.xyz https://npmjs.com.evil.xyz',
+    });
+    expect(result.classification).toBe('lookalike');
+    expect(result.domain).toBe('npmjs.com.evil.xyz');
+  });
+
+  it('should not flag trusted matches', () => {
+    expect(createUrlTrustChecker(trustedUrls).check({ url: 'https://api.github.com' }).classification).toBe('trusted');
+  });
+
+  it('should be disabled by config', () => {
+    const checker = createUrlTrustChecker({ ...trustedUrls, lookalikes: { enabled: false, penalty: 30 } });
+    expect(checker.check({ url: 'https://g1thub.com' }).classification).toBe('untrusted');
+  });
+});
+
+describe('createUrlTrustChecker with non-HTTP schemes', () => {
+  const checker = createUrlTrustChecker({
+    patterns: ['*.github.com', 'ssh://github.com/our-org/**', 'file:///workspace/**'],
+    reputation: reputationWith(),
+    httpDowngradePenalty: 5,
+    localNetwork: { loopback: 'untrusted', linkLocal: 'untrusted', private: 'untrusted' },
+    lookalikes: { enabled: true, penalty: 30 },
+  });
+
+  it('should let scheme rules target scp-style remotes', () => {
+    expect(checker.check({ command: 'git clone git@github.com:our-org/app.git' }).classification).toBe('trusted');
+    expect(checker.check({ command: 'git clone git@github.com:attacker/app.git' }).classification).toBe('untrusted');
+    expect(checker.check({ command: 'git clone git@evil.xyz:x/y.git' }).domain).toBe('evil.xyz');
+  });
+
+  it('should apply host rules to any scheme', () => {
+    expect(checker.check({ url: 'ftp://mirror.github.com/a' }).classification).toBe('trusted');
+    expect(checker.check({ url: 'ftp://mirror.evil.xyz/a' }).classification).toBe('untrusted');
+  });
+
+  it('should treat data URIs as untrusted unless a rule targets them', () => {
+    const result = checker.check({ url: 'data:text/html,<script>x</script>' });
+    expect(result.classification).toBe('untrusted');
+    expect(result.domain).toBeUndefined();
+
+    const trusting = createUrlTrustChecker({
+      patterns: ['data:'],
+      reputation: reputationWith(),
+      httpDowngradePenalty: 5,
+      localNetwork: { loopback: 'trusted', linkLocal: 'untrusted', private: 'neutral' },
+      lookalikes: { enabled: true, penalty: 30 },
+    });
+    expect(trusting.check({ url: 'data:text/html,hi' }).classification).toBe('trusted');
+  });
+
+  it('should match file URLs against path rules, else treat them as untrusted', () => {
+    expect(checker.check({ url: 'file:///workspace/notes.md' }).classification).toBe('trusted');
+    const result = checker.check({ url: 'file:///etc/passwd' });
+    expect(result.classification).toBe('untrusted');
+    expect(result.matchedPattern).toBeUndefined();
+  });
+});
+
+describe('createUrlTrustChecker with reputation classes', () => {
+  const checker = createUrlTrustChecker({
+    patterns: ['*.github.com', 'gist.github.com/our-org/**'],
+    reputation: reputationWith(['.bbc.co.uk'], ['.pastebin.com', 'gist.github.com'], ['.evil.xyz']),
+    httpDowngradePenalty: 5,
+    localNetwork: { loopback: 'trusted', linkLocal: 'untrusted', private: 'neutral' },
+    lookalikes: { enabled: true, penalty: 30 },
+  });
+
+  it('should report the reputation class', () => {
+    expect(checker.check({ url: 'https://www.bbc.co.uk/news' })).toMatchObject({
+      classification: 'neutral',
+      reputation: 'neutral',
+      matchedPattern: '.bbc.co.uk',
+    });
+    expect(checker.check({ url: 'https://pastebin.com/raw/x' }).reputation).toBe('suspicious');
+    expect(checker.check({ url: 'https://cdn.evil.xyz/a.js' }).classification).toBe('malicious');
+    expect(checker.check({ url: 'https://unknown.example' }).reputation).toBe('untrusted');
+  });
+
+  it('should let the worse class win a tie and the more specific rule win otherwise', () => {
+    expect(checker.check({ url: 'https://gist.github.com/x' }).classification).toBe('suspicious');
+    expect(checker.check({ url: 'https://gist.github.com/our-org/y' }).classification).toBe('trusted');
+  });
+
+  it('should report the most severe class across URLs', () => {
+    const result = checker.check({ urls: ['https://pastebin.com/a', 'https://evil.xyz', 'https://www.bbc.co.uk'] });
+    expect(result.classification).toBe('malicious');
+    expect(result.domain).toBe('evil.xyz');
+  });
+
+  it('should keep the trusted reputation for HTTP downgrades', () => {
+    expect(checker.check({ url: 'http://docs.github.com' })).toMatchObject({
+      classification: 'http-downgrade',
+      reputation: 'trusted',
+    });
+  });
 });
@@ -3,76 +3,209 @@
  *
  * Checks whether URLs are trusted based on glob patterns.
  * Extracts domains from various tool input formats.
+ *
+ * Patterns are either host globs ("*.github.com", ".github.com" for the apex
+ * and all subdomains), CIDR ranges ("10.0.0.0/8") or URL rules that also
+ * constrain scheme, port and path ("https://github.com/our-org/**").
+ *
+ * Besides http(s), URLs may use ftp, ssh, git, file and data schemes, or the
+ * scp-style remote syntax "user@host:path" (treated as ssh://user@host/path).
  */
 
 import type { TrustedUrls } from '../config/schema.js';
 import type { Logger } from '../utils/logger.js';
+import { classifyHost, isInCidr, parseCidr, parseIpAddress, type CidrRange } from './ip-address.js';
+import { createLookalikeDetector, type LookalikeMatch } from './lookalike.js';
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
+/**
+ * How a URL was classified, from least to most severe:
+ *   trusted        — matches a trusted rule
+ *   neutral        — matches a neutral rule (its class penalty, no recovery)
+ *   http-downgrade — trusted host reached over plain HTTP
+ *   untrusted      — matches nothing
+ *   suspicious     — matches a suspicious rule
+ *   lookalike      — matches nothing and imitates a trusted domain
+ *   malicious      — matches a malicious rule
+ *
+ * Loopback and private-network hosts that match no rule are classified by
+ * the `localNetwork` policy.
+ */
+export type UrlClassification =
+  | 'trusted'
+  | 'neutral'
+  | 'http-downgrade'
+  | 'untrusted'
+  | 'suspicious'
+  | 'lookalike'
+  | 'malicious';
+
+/**
+ * The reputation class of the rule a URL matched ('untrusted' when none did).
+ */
+export type UrlReputation = 'trusted' | 'neutral' | 'untrusted' | 'suspicious' | 'malicious';
+
+export interface UrlCheckEntry {
+  /** The extracted URL */
+  url: string;
+  /** The extracted domain */
+  domain?: string;
+  /** Whether the URL is trusted */
+  trusted: boolean;
+  /** How the URL was classified */
+  classification: UrlClassification;
+  /** Reputation class of the matched rule */
+  reputation: UrlReputation;
+  /** The pattern that matched */
+  matchedPattern?: string;
+  /** What the domain imitates (lookalike only) */
+  lookalike?: LookalikeMatch;
+}
+
 export interface UrlCheckResult {
   /** Whether a URL was found in the tool context */
   urlFound: boolean;
-  /** The extracted URL */
+  /** The worst URL: the first of the most severe classification */
   url?: string;
-  /** The extracted domain */
+  /** Domain of the worst URL */
   domain?: string;
-  /** Whether the URL is trusted */
+  /** Whether every URL is trusted */
   trusted: boolean;
-  /** The pattern that matched (if trusted) */
+  /** Classification of the worst URL ('trusted' when no URL was found) */
+  classification: UrlClassification;
+  /** Reputation class of the worst URL */
+  reputation: UrlReputation;
+  /** The pattern that matched the worst URL */
   matchedPattern?: string;
+  /** Every URL found, in order */
+  urls: UrlCheckEntry[];
 }
 
 // =============================================================================
 // DOMAIN EXTRACTION
 // =============================================================================
 
+const SCHEME_REGEX = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+// scp-style remote: "git@github.com:org/repo.git", "deploy@10.0.0.5:/srv/app"
+const SCP_REGEX = /^([\w.+-]+)@([a-z0-9.-]+|\[[0-9a-f:.]+\]):(?!\/\/)([^\s]*)$/i;
+
 /**
- * Extract the domain from a URL string.
+ * Parse a URL string. Adds https:// when the scheme is missing and rewrites
+ * scp-style remotes to ssh:// URLs.
  */
-export function extractDomain(url: string): string | null {
+export function parseUrl(url: string): URL | null {
   try {
-    // Add protocol if missing
-    let normalizedUrl = url;
-    if (!normalizedUrl.startsWith('http://') && !normalizedUrl.startsWith('https://')) {
-      normalizedUrl = `https://${normalizedUrl}`;
+    if (SCHEME_REGEX.test(url) || /^data:/i.test(url)) return new URL(url);
+
+    const scp = url.match(SCP_REGEX);
+    if (scp) {
+      const [, user, host, path] = scp;
+      return new URL(`ssh://${user}@${host}/${path.replace(/^\//, '')}`);
     }
-    const parsed = new URL(normalizedUrl);
-    return parsed.hostname.toLowerCase();
+
+    return new URL(`https://${url}`);
   } catch {
     return null;
   }
 }
 
 /**
- * Extract a URL from a tool call context.
- * Checks various common field names used by different tools.
+ * Extract the domain from a URL string.
  */
-export function extractUrlFromContext(toolInput: Record<string, unknown>): string | null {
-  // Direct URL fields
-  const urlFields = ['url', 'href', 'link', 'target', 'src', 'source', 'uri', 'endpoint'];
-  for (const field of urlFields) {
-    const value = toolInput[field];
-    if (typeof value === 'string' && value.length > 0) {
-      return value;
-    }
+export function extractDomain(url: string): string | null {
+  return parseUrl(url)?.hostname.toLowerCase() || null;
+}
+
+// Fields whose whole value is a URL (or a list of URLs)
+const URL_FIELDS = new Set([
+  'url', 'href', 'link', 'target', 'src', 'source', 'uri', 'endpoint',
+  'urls', 'hrefs', 'links', 'uris', 'endpoints',
+]);
+
+// Fields holding commands or scripts that may mention URLs
+const COMMAND_FIELDS = new Set(['command', 'cmd', 'script', 'input']);
+
+// URLs mentioned in commands: scheme URLs, data: URIs and scp-style remotes
+const COMMAND_URL_REGEXES = [
+  /\b(?:https?|ftps?|sftp|ssh|git|git\+ssh|ssh\+git|git\+https|file):\/\/[^\s"'`<>]+/gi,
+  /\bdata:(?:[a-z]+\/[a-z0-9.+-]+)?(?:;[^\s,"'`<>]*)*,[^\s"'`<>]*/gi,
+  // (not image digests such as "ubuntu@sha256:...")
+  /(?<![\w/:.@-])[\w.+-]+@(?!sha\d+:)(?:[a-z0-9.-]+|\[[0-9a-f:.]+\]):(?!\/\/)[^\s"'`<>]+/gi,
+];
+
+const MAX_DEPTH = 8;
+
+/**
+ * Extract the URLs mentioned in a command or script, in order of appearance.
+ */
+export function extractUrlsFromCommand(command: string): string[] {
+  return COMMAND_URL_REGEXES
+    .flatMap((regex) => [...command.matchAll(regex)])
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    .map((match) => match[0]);
+}
+
+/**
+ * Extract every URL from a tool call context, in order.
+ *
+ * Walks nested objects and arrays. Top-level URL fields count as URLs as-is
+ * ("github.com/x"); nested ones only when they hold an absolute URL, a data:
+ * URI or an scp-style remote, so that e.g. `{ edit: { target: "file.ts" } }`
+ * is not mistaken for a domain. Command fields are scanned at any depth.
+ */
+export function extractUrlsFromContext(toolInput: Record<string, unknown>): string[] {
+  const urls: string[] = [];
+
+  function add(url: string): void {
+    if (url.length > 0 && !urls.includes(url)) urls.push(url);
   }
 
-  // Check nested command string for URLs (e.g., "curl https://example.com")
-  const commandFields = ['command', 'cmd', 'script', 'input'];
-  for (const field of commandFields) {
-    const value = toolInput[field];
+  function addUrlValue(value: unknown, depth: number): void {
     if (typeof value === 'string') {
-      const urlMatch = value.match(/https?:\/\/[^\s"'`<>]+/);
-      if (urlMatch) {
-        return urlMatch[0];
+      if (depth === 0 || SCHEME_REGEX.test(value) || /^data:/i.test(value) || SCP_REGEX.test(value)) add(value);
+    } else if (Array.isArray(value)) {
+      for (const item of value) addUrlValue(item, depth);
+    }
+  }
+
+  function walk(node: unknown, depth: number): void {
+    if (depth > MAX_DEPTH || node === null || typeof node !== 'object') return;
+
+    if (Array.isArray(node)) {
+      for (const item of node) walk(item, depth + 1);
+      return;
+    }
+
+    const entries = Object.entries(node as Record<string, unknown>);
+
+    // Direct URL fields first, then URLs mentioned in commands, then nesting
+    for (const [key, value] of entries) {
+      if (URL_FIELDS.has(key)) addUrlValue(value, depth);
+    }
+    for (const [key, value] of entries) {
+      if (COMMAND_FIELDS.has(key) && typeof value === 'string') {
+        for (const url of extractUrlsFromCommand(value)) add(url);
       }
     }
+    for (const [, value] of entries) {
+      if (value !== null && typeof value === 'object') walk(value, depth + 1);
+    }
   }
 
-  return null;
+  walk(toolInput, 0);
+  return urls;
+}
+
+/**
+ * Extract a URL from a tool call context.
+ * Returns the first of `extractUrlsFromContext`.
+ */
+export function extractUrlFromContext(toolInput: Record<string, unknown>): string | null {
+  return extractUrlsFromContext(toolInput)[0] ?? null;
 }
 
 // =============================================================================
@@ -84,10 +217,15 @@ export function extractUrlFromContext(toolInput: Record<string, unknown>): strin
  *   *  → matches any characters except dots (single segment)
  *   ** → matches anything including dots (multi-segment)
  *   ?  → matches a single character
+ *   leading . → the apex domain itself or any subdomain (".github.com")
  */
 export function globToRegex(pattern: string): RegExp {
   let regexStr = '';
   let i = 0;
+  if (pattern.startsWith('.')) {
+    regexStr = '(?:.+\\.)?';
+    i = 1;
+  }
   while (i < pattern.length) {
     const char = pattern[i];
     if (char === '*') {
@@ -121,6 +259,137 @@ export function matchesGlobPattern(domain: string, pattern: string): boolean {
   }
 }
 
+// =============================================================================
+// URL RULES
+// =============================================================================
+
+export interface UrlRule {
+  /** The pattern as configured */
+  pattern: string;
+  /** Required scheme without ':' (any if absent) */
+  scheme?: string;
+  /** Host glob */
+  host: string;
+  /** Required port (any if absent) */
+  port?: string;
+  /** Path glob (any if absent) */
+  path?: string;
+  /** IP range the host must fall in (CIDR rules) */
+  cidr?: CidrRange;
+}
+
+const RULE_REGEX = /^(?:([a-z][a-z0-9+.-]*):\/\/(?:[^/@]*@)?)?([^/:]*)(?::(\d+|\*))?(\/.*)?$/i;
+
+/**
+ * Parse a trust pattern into a URL rule.
+ *   "*.github.com"                    → host only
+ *   "https://github.com/our-org/**"   → scheme + host + path
+ *   "localhost:3000"                  → host + port
+ *   "10.0.0.0/8", "fd00::/8"          → CIDR range (host only)
+ *   "ssh://github.com/our-org/**"     → also matches "git@github.com:our-org/x.git"
+ *   "file:///home/me/project/**"      → hostless file URLs under a path
+ *   "data:"                           → every URL of a scheme
+ */
+export function parseUrlRule(pattern: string): UrlRule {
+  const cidr = parseCidr(pattern);
+  if (cidr) return { pattern, host: pattern, cidr };
+
+  const schemeOnly = pattern.trim().match(/^([a-z][a-z0-9+.-]*):$/i);
+  if (schemeOnly) return { pattern, scheme: schemeOnly[1].toLowerCase(), host: '**' };
+
+  const match = pattern.trim().match(RULE_REGEX);
+  if (!match || (!match[1] && !match[2])) return { pattern, host: pattern };
+
+  const [, scheme, host, port, path] = match;
+  return {
+    pattern,
+    scheme: scheme?.toLowerCase(),
+    host,
+    port: port && port !== '*' ? port : undefined,
+    path: path && path !== '/**' ? path : undefined,
+  };
+}
+
+/**
+ * Convert a path glob to a RegExp.
+ *   *  → any characters within a segment
+ *   ** → anything, including "/" (a trailing "/**" also matches the prefix itself)
+ */
+export function pathGlobToRegex(pattern: string): RegExp {
+  let regexStr = '';
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (pattern.startsWith('/**', i) && i + 3 === pattern.length) {
+      regexStr += '(?:/.*)?';
+      break;
+    }
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        regexStr += '.*';
+        i += 2;
+        continue;
+      }
+      regexStr += '[^/]*';
+    } else if (char === '?') {
+      regexStr += '[^/]';
+    } else if ('.+^${}()|[]\\'.includes(char)) {
+      regexStr += `\\${char}`;
+    } else {
+      regexStr += char;
+    }
+    i++;
+  }
+  return new RegExp(`^${regexStr}$`);
+}
+
+const DEFAULT_PORTS: Record<string, string> = {
+  'http:': '80',
+  'https:': '443',
+  'ftp:': '21',
+  'ssh:': '22',
+  'sftp:': '22',
+  'git:': '9418',
+};
+
+function defaultPort(protocol: string): string {
+  return DEFAULT_PORTS[protocol] ?? '';
+}
+
+/**
+ * Check if a parsed URL matches a rule.
+ */
+export function matchesUrlRule(url: URL, rule: UrlRule): boolean {
+  if (rule.cidr) {
+    const address = parseIpAddress(url.hostname);
+    return address !== null && isInCidr(address, rule.cidr);
+  }
+
+  if (rule.scheme && url.protocol !== `${rule.scheme}:`) return false;
+  if (!matchesGlobPattern(url.hostname.toLowerCase(), rule.host)) return false;
+  if (rule.port && (url.port || defaultPort(url.protocol)) !== rule.port) return false;
+  if (rule.path) {
+    try {
+      if (!pathGlobToRegex(rule.path).test(decodeURIComponent(url.pathname))) return false;
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * How specific a rule is; when several rules match, the most specific wins.
+ */
+function ruleSpecificity(rule: UrlRule): number {
+  if (rule.cidr) return rule.cidr.bits;
+  const literal = (text: string): number => text.replace(/[*?]/g, '').length;
+  return (rule.path ? 10_000 + literal(rule.path) * 10 : 0)
+    + (rule.port ? 500 : 0)
+    + (rule.scheme ? 250 : 0)
+    + literal(rule.host);
+}
+
 // =============================================================================
 // URL TRUST CHECKER
 // =============================================================================
@@ -128,10 +397,34 @@ export function matchesGlobPattern(domain: string, pattern: string): boolean {
 export interface UrlTrustChecker {
   /** Check if a URL from tool input is trusted */
   check(toolInput: Record<string, unknown>): UrlCheckResult;
+  /** Check already-extracted URLs */
+  checkUrls(urls: string[]): UrlCheckResult;
+  /** Check a single URL */
+  checkUrl(url: string): UrlCheckEntry;
   /** Check if a specific domain is trusted */
   isDomainTrusted(domain: string): boolean;
 }
 
+const CLASSIFICATION_SEVERITY: Record<UrlClassification, number> = {
+  trusted: 0,
+  neutral: 1,
+  'http-downgrade': 2,
+  untrusted: 3,
+  suspicious: 4,
+  lookalike: 5,
+  malicious: 6,
+};
+
+const REPUTATION_SEVERITY: Record<UrlReputation, number> = {
+  trusted: 0,
+  neutral: 1,
+  untrusted: 2,
+  suspicious: 3,
+  malicious: 4,
+};
+
+const REPUTATION_CLASSES = ['neutral', 'suspicious', 'malicious'] as const;
+
 /**
  * Create a URL trust checker based on trusted URL patterns.
  */
@@ -140,46 +433,134 @@ export function createUrlTrustChecker(
   logger?: Logger
 ): UrlTrustChecker {
   const log = logger;
+  const rules: Array<{ rule: UrlRule; reputation: UrlReputation }> = [
+    ...trustedUrls.patterns.map((pattern) => ({ rule: parseUrlRule(pattern), reputation: 'trusted' as const })),
+    ...REPUTATION_CLASSES.flatMap((reputation) =>
+      trustedUrls.reputation[reputation].patterns.map((pattern) => ({ rule: parseUrlRule(pattern), reputation }))
+    ),
+  ];
+
+  // Literal domains behind trusted host rules ("*.github.com" → "github.com")
+  const lookalikes = createLookalikeDetector(
+    rules
+      .filter(({ rule, reputation }) => reputation === 'trusted' && !rule.cidr)
+      .map(({ rule }) => rule.host.replace(/^(\*\*?\.|\.)/, ''))
+      .filter((host) => !/[*?]/.test(host))
+  );
 
   function isDomainTrusted(domain: string): boolean {
-    for (const pattern of trustedUrls.patterns) {
-      if (matchesGlobPattern(domain, pattern)) {
-        return true;
-      }
-    }
-    return false;
+    const parsed = parseUrl(domain);
+    return parsed !== null && rules.some(({ rule, reputation }) =>
+      reputation === 'trusted' && !rule.scheme && !rule.port && !rule.path && matchesUrlRule(parsed, rule)
+    );
   }
 
-  function check(toolInput: Record<string, unknown>): UrlCheckResult {
-    const url = extractUrlFromContext(toolInput);
+  function classifyLocal(url: string, domain: string): UrlCheckEntry | null {
+    const scope = classifyHost(domain);
+    if (scope === 'public') return null;
 
-    if (!url) {
-      return { urlFound: false, trusted: true }; // No URL = no penalty
+    const classification = trustedUrls.localNetwork[scope === 'link-local' ? 'linkLocal' : scope];
+    log?.debug(`Host ${domain} is ${scope}, classified as ${classification}`);
+    return {
+      url,
+      domain,
+      trusted: classification === 'trusted',
+      classification,
+      reputation: classification,
+      matchedPattern: scope,
+    };
+  }
+
+  function checkUrl(url: string): UrlCheckEntry {
+    const parsed = parseUrl(url);
+    if (!parsed) {
+      log?.warn(`Could not parse URL: ${url}`);
+      return { url, trusted: false, classification: 'untrusted', reputation: 'untrusted' }; // Unparseable = untrusted
     }
+    const domain = parsed.hostname.toLowerCase();
 
-    const domain = extractDomain(url);
-    if (!domain) {
-      log?.warn(`Could not extract domain from URL: ${url}`);
-      return { urlFound: true, url, trusted: false }; // Unparseable = untrusted
+    // Most specific matching rule wins; on a tie, the worse reputation wins
+    let best: { rule: UrlRule; reputation: UrlReputation } | undefined;
+    for (const candidate of rules) {
+      if (!matchesUrlRule(parsed, candidate.rule)) continue;
+      if (!best) {
+        best = candidate;
+        continue;
+      }
+      const difference = ruleSpecificity(candidate.rule) - ruleSpecificity(best.rule);
+      if (difference > 0 || (difference === 0
+        && REPUTATION_SEVERITY[candidate.reputation] > REPUTATION_SEVERITY[best.reputation])) {
+        best = candidate;
+      }
     }
 
-    // Check against trusted patterns
-    for (const pattern of trustedUrls.patterns) {
-      if (matchesGlobPattern(domain, pattern)) {
-        log?.debug(`Domain ${domain} matches trusted pattern: ${pattern}`);
-        return {
-          urlFound: true,
-          url,
-          domain,
-          trusted: true,
-          matchedPattern: pattern,
-        };
+    // Hostless URLs (data:, file:///) only match rules that target them
+    if (!best && !domain) {
+      log?.info(`URL ${url.slice(0, 64)} has no host and matches no rule`);
+      return { url, trusted: false, classification: 'untrusted', reputation: 'untrusted' };
+    }
+
+    if (!best) {
+      const local = classifyLocal(url, domain);
+      if (local) return local;
+
+      if (trustedUrls.lookalikes.enabled) {
+        const lookalike = lookalikes.detect(domain);
+        if (lookalike) {
+          log?.warn(`Domain ${lookalike.displayDomain} looks like ${lookalike.target ?? 'a trusted domain'} (${lookalike.kind})`);
+          return { url, domain, trusted: false, classification: 'lookalike', reputation: 'untrusted', lookalike };
+        }
       }
+
+      log?.info(`Domain ${domain} is NOT trusted`);
+      return { url, domain, trusted: false, classification: 'untrusted', reputation: 'untrusted' };
+    }
+
+    const matchedPattern = best.rule.pattern;
+    const host = domain || undefined;
+    const reputation = best.reputation;
+
+    if (reputation !== 'trusted') {
+      log?.debug(`URL ${url} matches ${reputation} pattern: ${matchedPattern}`);
+      return { url, domain: host, trusted: false, classification: reputation, reputation, matchedPattern };
+    }
+
+    // A trusted host reached over plain HTTP, unless the rule asked for http
+    // (IP range rules cover internal services, which are commonly plain HTTP)
+    if (parsed.protocol === 'http:' && best.rule.scheme !== 'http' && !best.rule.cidr) {
+      log?.info(`Trusted host ${domain} reached over plain HTTP`);
+      return { url, domain: host, trusted: false, classification: 'http-downgrade', reputation, matchedPattern };
     }
 
-    log?.info(`Domain ${domain} is NOT trusted`);
-    return { urlFound: true, url, domain, trusted: false };
+    log?.debug(`URL ${url} matches trusted pattern: ${matchedPattern}`);
+    return { url, domain: host, trusted: true, classification: 'trusted', reputation, matchedPattern };
+  }
+
+  function checkUrls(rawUrls: string[]): UrlCheckResult {
+    const urls = rawUrls.map(checkUrl);
+
+    if (urls.length === 0) {
+      return { urlFound: false, trusted: true, classification: 'trusted', reputation: 'trusted', urls }; // No URL = no penalty
+    }
+
+    const worst = urls.reduce((current, entry) =>
+      CLASSIFICATION_SEVERITY[entry.classification] > CLASSIFICATION_SEVERITY[current.classification] ? entry : current
+    );
+    return {
+      urlFound: true,
+      url: worst.url,
+      domain: worst.domain,
+      trusted: worst.trusted,
+      classification: worst.classification,
+      reputation: worst.reputation,
+      matchedPattern: worst.matchedPattern,
+      urls,
+    };
+  }
+
+  function check(toolInput: Record<string, unknown>): UrlCheckResult {
+    return checkUrls(extractUrlsFromContext(toolInput));
   }
 
-  return { check, isDomainTrusted };
+  return { check, checkUrls, checkUrl, isDomainTrusted };
 }
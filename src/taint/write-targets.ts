@@ -0,0 +1,284 @@
+/**
+ * Write Target Detection
+ *
+ * Finds the files a shell script would write to: output redirections,
+ * tee, cp/mv/install/ln and local rsync/scp destinations, in-place sed
+ * edits, dd of=, touch, mkdir, curl/wget and sort output files, tar and
+ * unzip extraction directories, git clone directories and patched files.
+ * Targets are returned as written; resolving them against the workspace
+ * is up to the caller.
+ */
+
+import type { CommandAnalysis } from './command-normalizer.js';
+import { gitSubcommandIndex, isRemotePath, splitArgs } from './egress.js';
+import { commandBasename, unwrapCommand, type ShellRedirection } from './shell-parser.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface WriteTarget {
+  /** Path as written in the command */
+  target: string;
+  /** What writes it (e.g. ">", "tee", "cp", "sed -i") */
+  via: string;
+  /** Source text of the command */
+  command: string;
+  /** Index of the command in analysis.commands */
+  index: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Redirection operators that open their target for writing */
+const WRITE_REDIRECTIONS = new Set(['>', '>>', '>|', '&>', '&>>', '<>']);
+
+/** Targets that are not files: the null device, standard streams, sockets (see egress) */
+const NON_FILE_TARGETS = /^\/dev\/(?:null|stdout|stderr|tty|fd\/\d+|tcp\/.*|udp\/.*)$/;
+
+/** Commands that write to their last operand, and their options taking a value */
+const COPY_COMMANDS = new Map([
+  ['cp', new Set(['-t', '--target-directory', '-S', '--suffix'])],
+  ['mv', new Set(['-t', '--target-directory', '-S', '--suffix'])],
+  ['install', new Set(['-t', '--target-directory', '-S', '--suffix', '-m', '--mode', '-o', '--owner', '-g', '--group'])],
+  ['ln', new Set(['-t', '--target-directory', '-S', '--suffix'])],
+  ['rsync', new Set([
+    '-e', '--rsh', '--exclude', '--include', '--filter', '-f', '--port', '--password-file', '--log-file',
+    '-T', '--temp-dir', '--backup-dir', '--partial-dir', '--compare-dest', '--copy-dest', '--link-dest',
+    '--exclude-from', '--include-from', '--files-from', '--rsync-path', '--chmod', '--chown',
+  ])],
+  ['scp', new Set(['-P', '-i', '-o', '-F', '-l', '-c', '-J', '-S'])],
+]);
+
+/** Commands that write to every operand, and their options taking a value */
+const OPERAND_WRITERS = new Map([
+  ['tee', new Set<string>()],
+  ['touch', new Set(['-d', '--date', '-r', '--reference', '-t'])],
+  ['mkdir', new Set(['-m', '--mode'])],
+]);
+
+/** Options naming an output file or directory */
+const OUTPUT_OPTIONS = new Map([
+  ['curl', new Set(['-o', '--output'])],
+  ['wget', new Set(['-O', '--output-document', '-o', '--output-file', '-P', '--directory-prefix'])],
+  ['sort', new Set(['-o', '--output'])],
+]);
+
+/** tar options taking a value; -C/--directory is where an archive is extracted */
+const TAR_VALUE_OPTIONS = new Set([
+  '-C', '--directory', '-f', '--file', '-T', '--files-from', '-X', '--exclude-from', '-b', '--blocking-factor',
+  '-H', '--format', '-K', '--starting-file', '-N', '--newer', '-g', '--listed-incremental', '-I', '--use-compress-program',
+]);
+
+/** patch options taking a value; -o and -r name files it writes, -d the directory it patches in */
+const PATCH_VALUE_OPTIONS = new Set([
+  '-o', '--output', '-r', '--reject-file', '-d', '--directory', '-i', '--input', '-p', '--strip',
+  '-B', '--prefix', '-D', '--ifdef', '-F', '--fuzz', '-V', '--version-control', '-z', '--suffix', '-Y', '--basename-prefix',
+]);
+
+/** git clone options taking a value */
+const GIT_CLONE_VALUE_OPTIONS = new Set([
+  '-b', '--branch', '-o', '--origin', '-c', '--config', '--depth', '--reference', '--reference-if-able',
+  '-u', '--upload-pack', '-j', '--jobs', '--filter', '--template', '--shallow-since', '--shallow-exclude',
+  '--separate-git-dir', '--server-option', '--bundle-uri',
+]);
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function redirectionWrites(redirection: ShellRedirection): boolean {
+  if (WRITE_REDIRECTIONS.has(redirection.op)) return true;
+  // ">&file" writes to a file, ">&2" and ">&-" duplicate or close a descriptor
+  return redirection.op === '>&' && !/^(?:\d+|-)$/.test(redirection.target);
+}
+
+function copyTargets(args: string[], valueOptions: Set<string>): string[] {
+  const { options, operands } = splitArgs(args, valueOptions);
+  const targetDirectory = options.find(([name]) => name === '-t' || name === '--target-directory')?.[1];
+  if (targetDirectory !== undefined) return [targetDirectory];
+  return operands.length >= 2 ? [operands[operands.length - 1]] : [];
+}
+
+/**
+ * The files `sed -i` edits: every operand after the script, or every
+ * operand when the script comes from -e/-f.
+ */
+function sedTargets(args: string[]): string[] {
+  let inPlace = false;
+  let scriptOption = false;
+  const operands: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      operands.push(...args.slice(i + 1));
+      break;
+    }
+    if (arg.startsWith('--')) {
+      if (/^--in-place(?:=|$)/.test(arg)) inPlace = true;
+      if (/^--(?:expression|file)(?:=|$)/.test(arg)) {
+        scriptOption = true;
+        if (!arg.includes('=')) i++;
+      }
+      continue;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      operands.push(arg);
+      continue;
+    }
+
+    // Short option cluster: -i takes the rest as a backup suffix, -e/-f/-l the rest or the next word
+    for (let j = 1; j < arg.length; j++) {
+      const flag = arg[j];
+      if (flag === 'i') {
+        inPlace = true;
+        break;
+      }
+      if (flag === 'e' || flag === 'f' || flag === 'l') {
+        if (flag !== 'l') scriptOption = true;
+        if (j === arg.length - 1) i++;
+        break;
+      }
+    }
+  }
+
+  if (!inPlace) return [];
+  return scriptOption ? operands : operands.slice(1);
+}
+
+/**
+ * The values of output options, also at the end of a flag cluster
+ * ("-sSLo out", "sort -ro out").
+ */
+function outputTargets(args: string[], outputs: Set<string>): string[] {
+  const targets = splitArgs(args, outputs).options
+    .filter(([name, value]) => outputs.has(name) && value !== undefined && value !== '-')
+    .map(([, value]) => value as string);
+
+  args.forEach((arg, i) => {
+    const clustered = /^-[a-zA-Z]{2,}$/.test(arg) && !outputs.has(arg.slice(0, 2)) && outputs.has(`-${arg.at(-1)}`);
+    if (clustered && args[i + 1] !== undefined && args[i + 1] !== '-') {
+      targets.push(args[i + 1]);
+    }
+  });
+  return targets;
+}
+
+/**
+ * What tar writes: the archive when creating one (-c, -r, -u), the
+ * -C directory when extracting. Old-style clusters ("tar xzf a.tgz") work too.
+ */
+function tarTargets(args: string[]): string[] {
+  const oldStyle = args.length > 0 && /^[a-zA-Z]+$/.test(args[0]) ? args[0] : '';
+  const flags = [oldStyle, ...args.filter((arg) => /^-[a-zA-Z]+$/.test(arg))].join('');
+  const extract = /x/.test(flags) || args.some((arg) => /^--(?:extract|get)$/.test(arg));
+  const create = /[cru]/.test(flags) || args.some((arg) => /^--(?:create|append|update)$/.test(arg));
+
+  const { options } = splitArgs(oldStyle ? args.slice(1) : args, TAR_VALUE_OPTIONS);
+  const valueOf = (names: string[]): string | undefined => options.find(([name]) => names.includes(name))?.[1];
+
+  // A cluster ending in "f" ("-czf", "czf") takes the archive from the next word
+  const clusterIndex = args.findIndex((arg, i) => (i === 0 ? /^-?[a-zA-Z]*f$/ : /^-[a-zA-Z]+f$/).test(arg));
+  const archive = valueOf(['-f', '--file']) ?? (clusterIndex >= 0 ? args[clusterIndex + 1] : undefined);
+
+  const targets: string[] = [];
+  if (create && archive !== undefined && archive !== '-') targets.push(archive);
+  if (extract) targets.push(valueOf(['-C', '--directory']) ?? '.');
+  return targets;
+}
+
+/**
+ * Where unzip extracts: the -d directory, else the current one. Listing,
+ * testing and printing (-l, -t, -v, -p, -c, -Z) write nothing.
+ */
+function unzipTargets(args: string[]): string[] {
+  const { options } = splitArgs(args, new Set(['-d', '-x', '-P']));
+  if (options.some(([name]) => /^-[a-zA-Z]*[ltvpcZ]/.test(name))) return [];
+  return [options.find(([name]) => name === '-d')?.[1] ?? '.'];
+}
+
+/**
+ * What patch writes: the file to patch (first operand), -o/-r files, or
+ * the -d directory when the files come from the patch itself.
+ */
+function patchTargets(args: string[]): string[] {
+  const { options, operands } = splitArgs(args, PATCH_VALUE_OPTIONS);
+  const valueOf = (names: string[]): string | undefined => options.find(([name]) => names.includes(name))?.[1];
+
+  const targets = [valueOf(['-o', '--output']), valueOf(['-r', '--reject-file'])]
+    .filter((target): target is string => target !== undefined && target !== '-');
+  if (operands.length > 0) targets.push(operands[0]);
+  else targets.push(valueOf(['-d', '--directory']) ?? '.');
+  return targets;
+}
+
+/**
+ * The directory git clone creates: the second operand, else the name of
+ * the repository ("x/y.git" → "y"), under "git -C dir".
+ */
+function gitCloneTargets(args: string[]): string[] {
+  const subcommandIndex = gitSubcommandIndex(args);
+  if (subcommandIndex === -1 || args[subcommandIndex] !== 'clone') return [];
+
+  const { options, operands } = splitArgs(args.slice(subcommandIndex + 1), GIT_CLONE_VALUE_OPTIONS);
+  if (operands.length === 0) return [];
+  const directory = operands[1] ?? operands[0].replace(/\/+$/, '').replace(/\.git$/, '').split(/[/:]/).at(-1) ?? '';
+
+  const gitDir = options.find(([name]) => name === '--separate-git-dir')?.[1];
+  const base = args.slice(0, subcommandIndex).reduce<string | undefined>(
+    (dir, arg, i, globals) => (arg === '-C' && globals[i + 1] !== undefined ? globals[i + 1] : dir),
+    undefined
+  );
+  const targets = [base !== undefined && !/^[/~$]/.test(directory) ? `${base}/${directory}` : directory];
+  if (gitDir !== undefined) targets.push(gitDir);
+  return targets;
+}
+
+function commandTargets(tool: string, args: string[]): string[] {
+  const copyOptions = COPY_COMMANDS.get(tool);
+  if (copyOptions) {
+    const targets = copyTargets(args, copyOptions);
+    return tool === 'rsync' || tool === 'scp' ? targets.filter((target) => !isRemotePath(target)) : targets;
+  }
+  const writerOptions = OPERAND_WRITERS.get(tool);
+  if (writerOptions) return splitArgs(args, writerOptions).operands.filter((operand) => operand !== '-');
+  const outputs = OUTPUT_OPTIONS.get(tool);
+  if (outputs) return outputTargets(args, outputs);
+  if (tool === 'sed') return sedTargets(args);
+  if (tool === 'dd') return args.filter((arg) => arg.startsWith('of=')).map((arg) => arg.slice(3));
+  if (tool === 'tar') return tarTargets(args);
+  if (tool === 'unzip') return unzipTargets(args);
+  if (tool === 'patch') return patchTargets(args);
+  if (tool === 'git') return gitCloneTargets(args);
+  return [];
+}
+
+// =============================================================================
+// WRITE TARGET DETECTION
+// =============================================================================
+
+/**
+ * Find every file an analyzed script would write to.
+ */
+export function findWriteTargets(analysis: CommandAnalysis): WriteTarget[] {
+  const targets: WriteTarget[] = [];
+
+  for (const [index, { source }] of analysis.commands.entries()) {
+    const argv = unwrapCommand(source.argv);
+    const tool = commandBasename(argv[0] ?? '').toLowerCase();
+    const via = tool === 'sed' ? 'sed -i' : tool === 'git' ? 'git clone' : tool;
+
+    for (const target of commandTargets(tool, argv.slice(1))) {
+      targets.push({ target, via, command: source.text, index });
+    }
+    for (const redirection of source.redirections) {
+      if (!redirectionWrites(redirection)) continue;
+      targets.push({ target: redirection.target, via: redirection.op, command: source.text, index });
+    }
+  }
+
+  return targets.filter(({ target }) => target.length > 0 && !NON_FILE_TARGETS.test(target));
+}